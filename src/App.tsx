@@ -1,10 +1,57 @@
-import { useState, useMemo, useEffect, useCallback } from 'react';
-import { FunctionList, FunctionItem } from './components/FunctionList';
+import { useState, useMemo, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+import { FunctionList, FunctionItem, DataSeries } from './components/FunctionList';
 import { Graph } from './components/Graph';
 import { Controls } from './components/Controls';
 import { Documentation } from './components/Documentation';
-import { generatePoints, generateFunctionData, extractVariables, FunctionData, getDerivative, detectFunctionType } from './lib/mathUtils';
-import { Calculator, Github } from 'lucide-react';
+import {
+  extractVariables,
+  FunctionData,
+  ExplicitSeries,
+  PointOfInterest,
+  IntegralSpec,
+  ExpressionDiagnostic,
+  diagnoseExpression,
+  diagnoseGlider,
+  parseGlider,
+  detectFunctionType,
+  parseSliderDeclarations,
+  SliderDeclaration,
+  buildFunctionDefinitions,
+  setFunctionDefinitions,
+  buildNamedGeometry,
+  setNamedGeometry,
+  SymbolTables,
+  normalizeExpression
+} from './lib/mathUtils';
+import { createCurveWorkerPool, CurveWorkerPool } from './lib/curveWorkerPool';
+import { GraphState, encodeShareHash, decodeShareHash } from './lib/graphState';
+import {
+  WorkspaceStore,
+  createWorkspace,
+  getActiveWorkspace,
+  loadWorkspaceStore,
+  saveWorkspaceStore,
+  updateWorkspace,
+  serializeWorkspaceFile,
+  parseWorkspaceFile,
+  getWorkspaceFileName
+} from './lib/workspaces';
+import { WorkspaceMenu } from './components/WorkspaceMenu';
+import { ExportMenu } from './components/ExportMenu';
+import { DataImportDialog } from './components/DataImportDialog';
+import { buildFitModel, FitSpec, SeriesFit } from './lib/regression';
+import { DataExportMenu } from './components/DataExportMenu';
+import { serializeSamplesCsv, serializeSamplesJson, DataExportOptions } from './lib/dataExport';
+import { exportGraphImage, downloadBlob, ImageFormat, ImageExportOptions } from './lib/graphExport';
+import { useGraphHistory } from './lib/useGraphHistory';
+import { useParameterAnimation } from './lib/useParameterAnimation';
+import { useTimePlayback } from './lib/useTimePlayback';
+import { TimePlayback, DEFAULT_TIME_PLAYBACK, advancePlaybackTime, getFrameDuration } from './lib/timePlayback';
+import { TimeTransport } from './components/TimeTransport';
+import { SliderConfig, applySliderDeclaration, getInitialSliderValue, getSliderConfig } from './lib/parameterSliders';
+import { DerivedLink, DerivationKind, deriveExpression, refreshDerivedFunctions } from './lib/derivedFunctions';
+import { IDENTITY_TRANSFORM } from './lib/symbolic';
+import { Calculator, Github, Link, Check, Undo2, Redo2 } from 'lucide-react';
 
 const DEFAULT_X_DOMAIN: [number, number] = [-10, 10];
 const DEFAULT_Y_DOMAIN: [number, number] = [-10, 10];
@@ -14,117 +61,193 @@ const INITIAL_FUNCTIONS: FunctionItem[] = [
   { id: '2', expr: 'sin(x)', color: '#ef4444', visible: true },
 ];
 
-const IMPLICIT_REGEN_DEBOUNCE_MS = 180;
 const ANIMATION_FPS_FAST = 60;
 const ANIMATION_FPS_IMPLICIT = 24;
 const TIME_SYMBOL_REGEX = /\btime\b/;
+const EXPLICIT_JOB_KEY = 'explicit';
+const FUNCTION_JOB_PREFIX = 'function:';
+const POINTS_OF_INTEREST_JOB_KEY = 'pointsOfInterest';
+const FIT_JOB_PREFIX = 'fit:';
+const DATA_EXPORT_JOB_KEY = 'dataExport';
+const EMPTY_EXPLICIT_SERIES: ExplicitSeries = { data: [], discontinuities: {} };
+const LINK_COPIED_MS = 2000;
+const AUTOSAVE_DELAY_MS = 500;
 
-function domainsEqual(a: [number, number], b: [number, number], epsilon: number = 1e-9): boolean {
-  return Math.abs(a[0] - b[0]) <= epsilon && Math.abs(a[1] - b[1]) <= epsilon;
-}
+const DEFAULT_GRAPH_STATE: GraphState = {
+  functions: INITIAL_FUNCTIONS,
+  xDomain: DEFAULT_X_DOMAIN,
+  yDomain: DEFAULT_Y_DOMAIN,
+  gridDensity: 10,
+  aspectLocked: true,
+  parameters: {},
+  sliders: {}
+};
 
 function usesTimeSymbol(expr: string): boolean {
   return TIME_SYMBOL_REGEX.test(expr);
 }
 
+// Area shading on an explicit function, against another explicit function or the x-axis.
+function resolveAreaIntegral(func: FunctionItem, functions: FunctionItem[]): IntegralSpec | undefined {
+  if (!func.area || detectFunctionType(func.expr) !== 'explicit') return undefined;
+
+  const against = functions.find((f) => f.id === func.area?.against);
+  const lower = against && detectFunctionType(against.expr) === 'explicit' ? against.expr : null;
+  return { upper: func.expr, lower, from: func.area.from, to: func.area.to };
+}
+
 export default function App() {
-  const [functions, setFunctions] = useState<FunctionItem[]>(INITIAL_FUNCTIONS);
-  const [xDomain, setXDomain] = useState<[number, number]>(DEFAULT_X_DOMAIN);
-  const [yDomain, setYDomain] = useState<[number, number]>(DEFAULT_Y_DOMAIN);
-  const [gridDensity, setGridDensity] = useState(10);
+  const [workspaceStore, setWorkspaceStore] = useState<WorkspaceStore>(() => loadWorkspaceStore(DEFAULT_GRAPH_STATE));
+  // Only read by the initialisers below; afterwards the graph state lives in its own hooks.
+  const initialGraph = getActiveWorkspace(workspaceStore).state;
+  const [functions, setFunctionList] = useState<FunctionItem[]>(() => refreshDerivedFunctions(initialGraph.functions));
+  const [xDomain, setXDomain] = useState<[number, number]>(initialGraph.xDomain);
+  const [yDomain, setYDomain] = useState<[number, number]>(initialGraph.yDomain);
+  const [gridDensity, setGridDensity] = useState(initialGraph.gridDensity);
   const [sidebarWidth, setSidebarWidth] = useState(400);
   const [isResizing, setIsResizing] = useState(false);
-  const [parameters, setParameters] = useState<Record<string, number>>({});
-  const [aspectLocked, setAspectLocked] = useState(true);
-  const [isGraphInteracting, setIsGraphInteracting] = useState(false);
-  const [implicitXDomain, setImplicitXDomain] = useState<[number, number]>(DEFAULT_X_DOMAIN);
-  const [implicitYDomain, setImplicitYDomain] = useState<[number, number]>(DEFAULT_Y_DOMAIN);
+  const [recordedParameters, setParameters] = useState<Record<string, number>>(initialGraph.parameters);
+  const [sliders, setSliders] = useState<Record<string, SliderConfig>>(initialGraph.sliders);
+  // Derived items follow their sources within the same update, so an edit and the derived items
+  // it changes are one undo step, and every recorded list holds matching derived expressions.
+  const setFunctions = useCallback((update: FunctionItem[] | ((prev: FunctionItem[]) => FunctionItem[])) => {
+    setFunctionList((prev: FunctionItem[]) => refreshDerivedFunctions(typeof update === 'function' ? update(prev) : update));
+  }, []);
+  const [playingParameters, setPlayingParameters] = useState<string[]>([]);
+  // Values of the playing parameters, kept out of the recorded graph state until they stop.
+  const [animatedValues, setAnimatedValues] = useState<Record<string, number>>({});
+  const animatedValuesRef = useRef(animatedValues);
+  const parameters = useMemo(() => {
+    const playing = playingParameters.filter((name) => recordedParameters[name] !== undefined && animatedValues[name] !== undefined);
+    if (playing.length === 0) return recordedParameters;
+    const live = { ...recordedParameters };
+    playing.forEach((name) => {
+      live[name] = animatedValues[name];
+    });
+    return live;
+  }, [recordedParameters, playingParameters, animatedValues]);
+  const [aspectLocked, setAspectLocked] = useState(initialGraph.aspectLocked);
   const [timeSeconds, setTimeSeconds] = useState(0);
+  const [timePlayback, setTimePlayback] = useState<TimePlayback>(DEFAULT_TIME_PLAYBACK);
+  const [showAsymptotes, setShowAsymptotes] = useState(true);
+  const [showPointsOfInterest, setShowPointsOfInterest] = useState(true);
+  const [pointsOfInterest, setPointsOfInterest] = useState<PointOfInterest[]>([]);
+  const [tangentMode, setTangentMode] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; content: string } | null>(null);
+  const [fits, setFits] = useState<Record<string, SeriesFit>>({});
+  const [explicitSeries, setExplicitSeries] = useState<ExplicitSeries>(EMPTY_EXPLICIT_SERIES);
+  const [curveDataMap, setCurveDataMap] = useState<Record<string, FunctionData>>({});
+  const [pendingJobKeys, setPendingJobKeys] = useState<string[]>([]);
+  const poolRef = useRef<CurveWorkerPool | null>(null);
+  const submittedIdsRef = useRef(new Set<string>());
+  const graphAreaRef = useRef<HTMLDivElement>(null);
+
+  // Curve generation runs off the main thread; jobs replaced before they start resolve as null.
+  useEffect(() => {
+    const pool = createCurveWorkerPool(undefined, setPendingJobKeys);
+    poolRef.current = pool;
+    return () => {
+      pool.dispose();
+      poolRef.current = null;
+      submittedIdsRef.current.clear();
+    };
+  }, []);
+
+  const functionDefinitionTable = useMemo(() => buildFunctionDefinitions(functions.filter((f) => !f.series)), [functions]);
+
+  // Shapes and gliders can be built from sliders. The table keeps its identity while its content
+  // does, so moving a slider that no shape uses changes nothing downstream.
+  const builtGeometry = useMemo(() => (
+    buildNamedGeometry(functions.filter((f) => !f.series), functionDefinitionTable.definitions, parameters)
+  ), [functions, functionDefinitionTable, parameters]);
+  const builtGeometryKey = JSON.stringify(builtGeometry);
+  const namedGeometry = useMemo(() => builtGeometry, [builtGeometryKey]);
+
+  const symbolTables = useMemo<SymbolTables>(() => (
+    { definitions: functionDefinitionTable.definitions, geometry: namedGeometry }
+  ), [functionDefinitionTable, namedGeometry]);
+
+  // Named functions, measurements such as area(P1) and coordinates such as A.x are inlined
+  // wherever expressions are normalized, against the installed tables. They are swapped in once
+  // a render commits, and setting installedTables then renders again, before paint, with them in
+  // place for the diagnostics. Memos that run ahead of that pass symbolTables explicitly.
+  const [installedTables, setInstalledTables] = useState<SymbolTables | null>(null);
+  useLayoutEffect(() => {
+    setFunctionDefinitions(symbolTables.definitions);
+    setNamedGeometry(symbolTables.geometry);
+    setInstalledTables(symbolTables);
+  }, [symbolTables]);
 
   const timingMeta = useMemo(() => {
-    const nonImplicitStaticFunctions: FunctionItem[] = [];
-    const nonImplicitAnimatedFunctions: FunctionItem[] = [];
-    const implicitStaticFunctions: FunctionItem[] = [];
-    const implicitAnimatedFunctions: FunctionItem[] = [];
+    const staticFunctions: FunctionItem[] = [];
+    const animatedFunctions: FunctionItem[] = [];
+    const implicitIds = new Set<string>();
 
     let hasTimeDrivenExplicit = false;
+    let hasTimeDrivenImplicit = false;
 
     functions.forEach((f) => {
       if (!f.visible) return;
 
-      const usesTime = usesTimeSymbol(f.expr);
-      const type = detectFunctionType(f.expr);
+      // Through the normalized form, so a call to a named function that uses time counts too.
+      const usesTime = usesTimeSymbol(normalizeExpression(f.expr, symbolTables));
+      const type = detectFunctionType(f.expr, symbolTables);
 
-      if (type === 'implicit') {
-        if (usesTime) {
-          implicitAnimatedFunctions.push(f);
-        } else {
-          implicitStaticFunctions.push(f);
-        }
-        return;
-      }
+      // Inequalities share the implicit grid evaluation cost, so they animate at the same rate.
+      const isGridBased = type === 'implicit' || type === 'inequality';
+      if (isGridBased) implicitIds.add(f.id);
 
       if (usesTime) {
-        nonImplicitAnimatedFunctions.push(f);
+        animatedFunctions.push(f);
       } else {
-        nonImplicitStaticFunctions.push(f);
+        staticFunctions.push(f);
       }
 
       if (type === 'explicit' && usesTime) {
         hasTimeDrivenExplicit = true;
       }
+      if (isGridBased && usesTime) {
+        hasTimeDrivenImplicit = true;
+      }
     });
 
-    const hasTimeDrivenNonImplicit = nonImplicitAnimatedFunctions.length > 0;
-    const hasTimeDrivenImplicit = implicitAnimatedFunctions.length > 0;
-    const hasTimeDrivenFunction = hasTimeDrivenNonImplicit || hasTimeDrivenImplicit;
-    const hasVisibleImplicit = implicitStaticFunctions.length > 0 || implicitAnimatedFunctions.length > 0;
-
     return {
-      nonImplicitStaticFunctions,
-      nonImplicitAnimatedFunctions,
-      implicitStaticFunctions,
-      implicitAnimatedFunctions,
-      hasTimeDrivenFunction,
+      staticFunctions,
+      animatedFunctions,
+      implicitIds,
+      hasTimeDrivenFunction: animatedFunctions.length > 0,
       hasTimeDrivenExplicit,
-      hasTimeDrivenNonImplicit,
-      hasTimeDrivenImplicit,
-      hasVisibleImplicit
+      hasTimeDrivenImplicit
     };
-  }, [functions]);
+  }, [functions, symbolTables]);
 
   const {
-    nonImplicitStaticFunctions,
-    nonImplicitAnimatedFunctions,
-    implicitStaticFunctions,
-    implicitAnimatedFunctions,
+    staticFunctions,
+    animatedFunctions,
+    implicitIds,
     hasTimeDrivenFunction,
     hasTimeDrivenExplicit,
-    hasTimeDrivenNonImplicit,
-    hasTimeDrivenImplicit,
-    hasVisibleImplicit
+    hasTimeDrivenImplicit
   } = timingMeta;
 
-  useEffect(() => {
-    if (!hasTimeDrivenFunction) return;
-
-    const animationFps = hasTimeDrivenImplicit ? ANIMATION_FPS_IMPLICIT : ANIMATION_FPS_FAST;
-    let rafId = 0;
-    let lastEmit = 0;
-    const frameBudgetMs = 1000 / animationFps;
-    const start = performance.now() - timeSeconds * 1000;
+  useTimePlayback(
+    hasTimeDrivenFunction,
+    hasTimeDrivenImplicit ? ANIMATION_FPS_IMPLICIT : ANIMATION_FPS_FAST,
+    timePlayback,
+    timeSeconds,
+    setTimeSeconds
+  );
 
-    const tick = (now: number) => {
-      if (now - lastEmit >= frameBudgetMs) {
-        setTimeSeconds((now - start) / 1000);
-        lastEmit = now;
-      }
-      rafId = window.requestAnimationFrame(tick);
-    };
+  const seekTime = useCallback((time: number) => {
+    setTimeSeconds(Math.max(0, time));
+  }, []);
 
-    rafId = window.requestAnimationFrame(tick);
-    return () => window.cancelAnimationFrame(rafId);
-  }, [hasTimeDrivenFunction, hasTimeDrivenImplicit]);
+  // Stepping pauses playback so the frame stays on screen.
+  const stepTime = useCallback((frames: number) => {
+    setTimePlayback((prev) => ({ ...prev, playing: false }));
+    setTimeSeconds(advancePlaybackTime(timeSeconds, frames * getFrameDuration(timePlayback), timePlayback));
+  }, [timeSeconds, timePlayback]);
 
   const animatedParameters = useMemo(() => {
     return { ...parameters, time: timeSeconds };
@@ -132,19 +255,51 @@ export default function App() {
 
   const explicitEvalParameters = hasTimeDrivenExplicit ? animatedParameters : parameters;
 
+  // slider(...) declarations in the scripts; the first declaration of a name wins.
+  const sliderDeclarations: Record<string, SliderDeclaration> = useMemo(() => {
+    const declarations: Record<string, SliderDeclaration> = {};
+    functions.forEach((f) => {
+      if (!f.visible || f.series) return;
+      Object.entries(parseSliderDeclarations(f.expr)).forEach(([name, declaration]) => {
+        declarations[name] ??= declaration;
+      });
+    });
+    return declarations;
+  }, [functions]);
+
+  const declaredSliderNames = useMemo(() => Object.keys(sliderDeclarations), [sliderDeclarations]);
+
+  // What the sync below last wrote. It follows an edit of the functions in the next render, and
+  // belongs to that edit's undo step.
+  const syncedRef = useRef<{ parameters: Record<string, number>; sliders: Record<string, SliderConfig> } | null>(null);
+
   // Extract variables from functions
   useEffect(() => {
-    const newParams = { ...parameters };
+    const newParams = { ...recordedParameters };
+    const newSliders = { ...sliders };
     let hasChanges = false;
+    let hasSliderChanges = false;
     const foundVars = new Set<string>();
+
+    Object.entries(sliderDeclarations).forEach(([name, declaration]) => {
+      const current = newSliders[name];
+      const declared = applySliderDeclaration(current, declaration);
+      if (!current || current.min !== declared.min || current.max !== declared.max || current.step !== declared.step) {
+        newSliders[name] = declared;
+        hasSliderChanges = true;
+      }
+    });
 
     functions.forEach(f => {
       if (!f.visible) return;
       const vars = extractVariables(f.expr);
+      if (f.area) {
+        vars.push(...extractVariables(f.area.from), ...extractVariables(f.area.to));
+      }
       vars.forEach(v => {
         foundVars.add(v);
         if (newParams[v] === undefined) {
-          newParams[v] = 1; // Default value
+          newParams[v] = getInitialSliderValue(getSliderConfig(newSliders, v), sliderDeclarations[v]);
           hasChanges = true;
         }
       });
@@ -156,132 +311,349 @@ export default function App() {
         hasChanges = true;
       }
     });
+    Object.keys(newSliders).forEach((key) => {
+      if (!foundVars.has(key)) {
+        delete newSliders[key];
+        hasSliderChanges = true;
+      }
+    });
 
+    syncedRef.current = {
+      parameters: hasChanges ? newParams : recordedParameters,
+      sliders: hasSliderChanges ? newSliders : sliders
+    };
     if (hasChanges) {
       setParameters(newParams);
+      setPlayingParameters((prev) => prev.filter((name) => foundVars.has(name)));
+    }
+    if (hasSliderChanges) {
+      setSliders(newSliders);
     }
+  }, [functions, sliderDeclarations]);
+
+  const showAnimatedValues = useCallback((values: Record<string, number>) => {
+    animatedValuesRef.current = values;
+    setAnimatedValues(values);
+  }, []);
+
+  // The value a parameter stops at is recorded as one edit, rather than every frame of the run.
+  const stopParameterAnimation = useCallback((name: string) => {
+    const { [name]: value, ...rest } = animatedValuesRef.current;
+    showAnimatedValues(rest);
+    setPlayingParameters((prev) => prev.filter((n) => n !== name));
+    if (value !== undefined) {
+      setParameters((prev) => (prev[name] === undefined ? prev : { ...prev, [name]: value }));
+    }
+  }, [showAnimatedValues]);
+
+  useParameterAnimation(playingParameters, parameters, sliders, showAnimatedValues, stopParameterAnimation);
+
+  const toggleParameterAnimation = useCallback((name: string) => {
+    if (playingParameters.includes(name)) {
+      stopParameterAnimation(name);
+      return;
+    }
+    // A one-shot animation that already reached the end replays from the start.
+    const config = getSliderConfig(sliders, name);
+    if (config.mode === 'once' && parameters[name] >= config.max) {
+      setParameters((prev) => ({ ...prev, [name]: config.min }));
+    }
+    setPlayingParameters([...playingParameters, name]);
+  }, [playingParameters, sliders, parameters, stopParameterAnimation]);
+
+  // Sliders and graph drags hand back the whole set of values they show, which includes playing
+  // values and time; only the recorded parameters they changed are kept.
+  const updateParameters = useCallback((next: Record<string, number>) => {
+    setParameters((prev) => {
+      const changed = Object.keys(prev).filter((name) => (
+        !playingParameters.includes(name) && next[name] !== undefined && next[name] !== prev[name]
+      ));
+      if (changed.length === 0) return prev;
+      const updated = { ...prev };
+      changed.forEach((name) => {
+        updated[name] = next[name];
+      });
+      return updated;
+    });
+  }, [playingParameters]);
+
+  const updateSlider = useCallback((name: string, config: SliderConfig) => {
+    setSliders((prev) => ({ ...prev, [name]: config }));
+    setParameters((prev) => (
+      prev[name] === undefined ? prev : { ...prev, [name]: Math.min(config.max, Math.max(config.min, prev[name])) }
+    ));
+  }, []);
+
+  // Data series have no expression to evaluate, so their points stay out of worker messages.
+  const expressionFunctions = useMemo(() => functions.filter((f) => !f.series), [functions]);
+
+  useEffect(() => {
+    const pool = poolRef.current;
+    if (!pool) return;
+
+    pool.submit(EXPLICIT_JOB_KEY, {
+      kind: 'explicitSeries',
+      functions: expressionFunctions,
+      xDomain,
+      pointCount: 500,
+      parameters: explicitEvalParameters,
+      options: { yDomain }
+    }).then((outcome) => {
+      if (outcome) setExplicitSeries(outcome.result);
+    });
+  }, [expressionFunctions, xDomain, yDomain, explicitEvalParameters]);
+
+  const data = explicitSeries.data;
+
+  const submitFunctionData = useCallback((list: FunctionItem[], evalParameters: Record<string, number>) => {
+    const pool = poolRef.current;
+    if (!pool) return;
+
+    list.forEach((f) => {
+      submittedIdsRef.current.add(f.id);
+      pool.submit(`${FUNCTION_JOB_PREFIX}${f.id}`, {
+        kind: 'functionData',
+        // Only the expression fields: imported series can be large and gain nothing in the worker.
+        func: { id: f.id, expr: f.expr, visible: f.visible, integral: resolveAreaIntegral(f, functions) },
+        xDomain,
+        yDomain,
+        parameters: evalParameters
+      }).then((outcome) => {
+        if (!outcome) return;
+        setCurveDataMap((prev) => {
+          const next = { ...prev };
+          if (outcome.result) {
+            next[f.id] = outcome.result;
+          } else {
+            delete next[f.id];
+          }
+          return next;
+        });
+      });
+    });
+  }, [functions, xDomain, yDomain]);
+
+  useEffect(() => {
+    submitFunctionData(staticFunctions, parameters);
+  }, [submitFunctionData, staticFunctions, parameters]);
+
+  useEffect(() => {
+    if (!hasTimeDrivenFunction) return;
+    submitFunctionData(animatedFunctions, animatedParameters);
+  }, [submitFunctionData, animatedFunctions, animatedParameters, hasTimeDrivenFunction]);
+
+  // Drop data and in-flight jobs for functions that were hidden or removed.
+  useEffect(() => {
+    const visibleIds = new Set(functions.filter((f) => f.visible).map((f) => f.id));
+    submittedIdsRef.current.forEach((id) => {
+      if (visibleIds.has(id)) return;
+      poolRef.current?.cancel(`${FUNCTION_JOB_PREFIX}${id}`);
+      submittedIdsRef.current.delete(id);
+    });
+
+    setCurveDataMap((prev) => {
+      const staleIds = Object.keys(prev).filter((id) => !visibleIds.has(id));
+      if (staleIds.length === 0) return prev;
+      const next = { ...prev };
+      staleIds.forEach((id) => delete next[id]);
+      return next;
+    });
   }, [functions]);
 
-  const data = useMemo(() => {
-    return generatePoints(functions, xDomain[0], xDomain[1], 500, explicitEvalParameters);
-  }, [functions, xDomain, explicitEvalParameters]);
+  useEffect(() => {
+    const pool = poolRef.current;
+    if (!pool) return;
 
-  useEffect(() => {
-    if (!hasVisibleImplicit) {
-      setImplicitXDomain((prev) => (domainsEqual(prev, xDomain) ? prev : xDomain));
-      setImplicitYDomain((prev) => (domainsEqual(prev, yDomain) ? prev : yDomain));
+    if (!showPointsOfInterest) {
+      pool.cancel(POINTS_OF_INTEREST_JOB_KEY);
+      setPointsOfInterest([]);
       return;
     }
 
-    if (isGraphInteracting) return;
-
-    const timer = window.setTimeout(() => {
-      setImplicitXDomain((prev) => (domainsEqual(prev, xDomain) ? prev : xDomain));
-      setImplicitYDomain((prev) => (domainsEqual(prev, yDomain) ? prev : yDomain));
-    }, IMPLICIT_REGEN_DEBOUNCE_MS);
+    pool.submit(POINTS_OF_INTEREST_JOB_KEY, {
+      kind: 'pointsOfInterest',
+      functions: expressionFunctions,
+      xDomain,
+      yDomain,
+      parameters: hasTimeDrivenFunction ? animatedParameters : parameters
+    }).then((outcome) => {
+      if (outcome) setPointsOfInterest(outcome.result);
+    });
+  }, [showPointsOfInterest, expressionFunctions, xDomain, yDomain, parameters, animatedParameters, hasTimeDrivenFunction]);
 
-    return () => window.clearTimeout(timer);
-  }, [xDomain, yDomain, isGraphInteracting, hasVisibleImplicit]);
+  const functionDataMap = useMemo(() => {
+    const map: Record<string, FunctionData> = { ...curveDataMap };
 
-  const nonImplicitStaticDataMap = useMemo(() => {
-    const map: Record<string, FunctionData> = {};
-    nonImplicitStaticFunctions.forEach(f => {
-      const data = generateFunctionData(f, xDomain, yDomain, parameters);
-      if (data) map[f.id] = data;
-    });
-    return map;
-  }, [nonImplicitStaticFunctions, xDomain, yDomain, parameters]);
-
-  const nonImplicitAnimatedDataMap = useMemo(() => {
-    const map: Record<string, FunctionData> = {};
-    if (!hasTimeDrivenNonImplicit) return map;
-
-    nonImplicitAnimatedFunctions.forEach(f => {
-      const data = generateFunctionData(f, xDomain, yDomain, animatedParameters);
-      if (data) map[f.id] = data;
+    Object.keys(explicitSeries.discontinuities).forEach((id) => {
+      if (map[id]?.type === 'explicit') {
+        map[id] = { ...map[id], discontinuities: explicitSeries.discontinuities[id] };
+      }
     });
 
     return map;
-  }, [nonImplicitAnimatedFunctions, xDomain, yDomain, animatedParameters, hasTimeDrivenNonImplicit]);
-
-  const implicitStaticDataMap = useMemo(() => {
-    const map: Record<string, FunctionData> = {};
-    if (!hasVisibleImplicit) return map;
+  }, [curveDataMap, explicitSeries]);
 
-    implicitStaticFunctions.forEach(f => {
-      const data = generateFunctionData(f, implicitXDomain, implicitYDomain, parameters);
-      if (data) map[f.id] = data;
+  const diagnostics = useMemo(() => {
+    const map: Record<string, ExpressionDiagnostic> = {};
+    functions.forEach((f) => {
+      const definitionError = functionDefinitionTable.errors[f.id];
+      const glider = parseGlider(f.expr);
+      const diagnostic = definitionError
+        ? { severity: 'error' as const, message: definitionError }
+        : glider
+          ? diagnoseGlider(glider, expressionFunctions, parameters)
+          : diagnoseExpression(f.expr, xDomain, yDomain, parameters);
+      if (diagnostic) map[f.id] = diagnostic;
     });
-
     return map;
-  }, [implicitStaticFunctions, implicitXDomain, implicitYDomain, parameters, hasVisibleImplicit]);
-
-  const implicitAnimatedDataMap = useMemo(() => {
-    const map: Record<string, FunctionData> = {};
-    if (!hasTimeDrivenImplicit) return map;
+  }, [functions, expressionFunctions, functionDefinitionTable, installedTables, xDomain, yDomain, parameters]);
 
-    implicitAnimatedFunctions.forEach(f => {
-      const data = generateFunctionData(f, implicitXDomain, implicitYDomain, animatedParameters);
-      if (data) map[f.id] = data;
-    });
-
-    return map;
-  }, [implicitAnimatedFunctions, implicitXDomain, implicitYDomain, animatedParameters, hasTimeDrivenImplicit]);
+  const isImplicitPending = pendingJobKeys.some((key) => (
+    key.startsWith(FUNCTION_JOB_PREFIX) && implicitIds.has(key.slice(FUNCTION_JOB_PREFIX.length))
+  ));
 
-  const functionDataMap = useMemo(() => {
-    return {
-      ...nonImplicitStaticDataMap,
-      ...nonImplicitAnimatedDataMap,
-      ...implicitStaticDataMap,
-      ...implicitAnimatedDataMap
-    };
-  }, [nonImplicitStaticDataMap, nonImplicitAnimatedDataMap, implicitStaticDataMap, implicitAnimatedDataMap]);
-
-  const isImplicitStale = hasVisibleImplicit && (!domainsEqual(implicitXDomain, xDomain) || !domainsEqual(implicitYDomain, yDomain));
-
-  const addFunction = useCallback((expr: string = '') => {
+  const addFunction = useCallback((expr: string = '', derived?: DerivedLink) => {
     const newId = Math.random().toString(36).substr(2, 9);
     const colors = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6'];
     const randomColor = colors[Math.floor(Math.random() * colors.length)];
     
     setFunctions((prev) => [
       ...prev,
-      { id: newId, expr, color: randomColor, visible: true },
+      { id: newId, expr, color: randomColor, visible: true, ...(derived ? { derived } : {}) },
     ]);
   }, []);
 
-  const handleDataUpload = useCallback((content: string) => {
-    const lines = content.split('\n').filter(l => l.trim());
-    const points: string[] = [];
-    
-    lines.forEach(line => {
-      // Handle CSV or whitespace separated values
-      const parts = line.split(/[,\t]+/).map(p => parseFloat(p.trim()));
-      // Check if valid numbers
-      if (parts.length >= 2 && !isNaN(parts[0]) && !isNaN(parts[1])) {
-        points.push(`(${parts[0]}, ${parts[1]})`);
-      }
-    });
-    
-    if (points.length > 0) {
-      addFunction(points.join(', '));
+  const handleDataUpload = useCallback((content: string, fileName: string) => {
+    setPendingImport({ fileName, content });
+  }, []);
+
+  // Each imported column becomes its own series item, in consecutive palette colors.
+  const importDataSeries = useCallback((series: DataSeries[]) => {
+    const colors = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6'];
+    const offset = Math.floor(Math.random() * colors.length);
+
+    setFunctions((prev) => [
+      ...prev,
+      ...series.map((s, index) => ({
+        id: Math.random().toString(36).substr(2, 9),
+        expr: '',
+        color: colors[(offset + index) % colors.length],
+        visible: true,
+        series: s
+      }))
+    ]);
+    setPendingImport(null);
+  }, []);
+
+  // Fits run in the worker pool; the fitted values go into parameters and the model is drawn by
+  // a function item that later fits of the same series reuse.
+  const runFit = useCallback(async (seriesId: string, spec: FitSpec) => {
+    const item = functions.find((f) => f.id === seriesId);
+    const pool = poolRef.current;
+    if (!item?.series || !pool) return;
+
+    const previous = fits[seriesId];
+    const modelItem = functions.find((f) => f.id === previous?.functionId);
+    const takenNames = new Set<string>([
+      ...functions.filter((f) => f !== modelItem).flatMap((f) => extractVariables(f.expr)),
+      ...Object.keys(functionDefinitionTable.definitions)
+    ]);
+    const model = buildFitModel(spec, item.series.points, parameters, takenNames);
+    const base: SeriesFit = {
+      spec,
+      functionId: modelItem?.id ?? null,
+      residualsId: functions.some((f) => f.id === previous?.residualsId) ? previous?.residualsId ?? null : null,
+      pending: false,
+      result: previous?.result ?? null,
+      error: null
+    };
+    if (!model) {
+      setFits((prev) => ({ ...prev, [seriesId]: { ...base, error: 'The model needs an expression in x with at least one parameter' } }));
+      return;
     }
-  }, [addFunction]);
+
+    setFits((prev) => ({ ...prev, [seriesId]: { ...base, pending: true } }));
+    const outcome = await pool.submit(`${FIT_JOB_PREFIX}${seriesId}`, {
+      kind: 'fit',
+      model,
+      points: item.series.points,
+      parameters
+    });
+    if (!outcome) return;
+
+    const result = outcome.result;
+    if (!result) {
+      setFits((prev) => ({ ...prev, [seriesId]: { ...base, error: 'The model could not be evaluated at every data point' } }));
+      return;
+    }
+
+    const functionId = modelItem?.id ?? Math.random().toString(36).substr(2, 9);
+    setParameters((prev) => ({ ...prev, ...result.parameters }));
+    setFunctions((prev) => {
+      const next = prev.map((f) => {
+        if (f.id === functionId) return { ...f, expr: model.expr };
+        if (f.id === base.residualsId && f.series) return { ...f, series: { ...f.series, points: result.residuals } };
+        return f;
+      });
+      if (modelItem) return next;
+      const seriesIndex = next.findIndex((f) => f.id === seriesId);
+      next.splice(seriesIndex + 1, 0, { id: functionId, expr: model.expr, color: item.color, visible: true });
+      return next;
+    });
+    setFits((prev) => ({ ...prev, [seriesId]: { ...base, functionId, result } }));
+  }, [functions, functionDefinitionTable, fits, parameters]);
+
+  const toggleResiduals = useCallback((seriesId: string) => {
+    const fit = fits[seriesId];
+    const item = functions.find((f) => f.id === seriesId);
+    if (!fit?.result || !item?.series) return;
+
+    if (fit.residualsId && functions.some((f) => f.id === fit.residualsId)) {
+      setFunctions((prev) => prev.filter((f) => f.id !== fit.residualsId));
+      setFits((prev) => ({ ...prev, [seriesId]: { ...fit, residualsId: null } }));
+      return;
+    }
+
+    const residualsId = Math.random().toString(36).substr(2, 9);
+    setFunctions((prev) => [
+      ...prev,
+      {
+        id: residualsId,
+        expr: '',
+        color: '#6b7280',
+        visible: true,
+        series: { name: `${item.series?.name} residuals`, style: 'scatter', points: fit.result?.residuals ?? [] }
+      }
+    ]);
+    setFits((prev) => ({ ...prev, [seriesId]: { ...fit, residualsId } }));
+  }, [fits, functions]);
 
   const updateFunction = useCallback((id: string, updates: Partial<FunctionItem>) => {
     setFunctions((prev) => prev.map((f) => (f.id === id ? { ...f, ...updates } : f)));
   }, []);
 
-  const differentiateFunction = useCallback((id: string) => {
+  const deriveFunction = useCallback((id: string, kind: DerivationKind) => {
     const func = functions.find(f => f.id === id);
     if (!func) return;
     
-    const deriv = getDerivative(func.expr);
-    if (deriv) {
-      addFunction(deriv);
+    const link: DerivedLink = kind === 'transform'
+      ? { source: id, kind, transform: IDENTITY_TRANSFORM }
+      : { source: id, kind };
+    const expr = deriveExpression(func.expr, link);
+    if (expr !== null) {
+      addFunction(expr, link);
     }
   }, [functions, addFunction]);
 
+  const applySymbolicResult = useCallback((id: string, expr: string, mode: 'add' | 'replace') => {
+    if (mode === 'add') {
+      addFunction(expr);
+    } else {
+      // A replaced derived item no longer follows its source.
+      setFunctions((prev) => prev.map((f) => (f.id === id ? { ...f, expr, derived: undefined } : f)));
+    }
+  }, [addFunction]);
+
   const removeFunction = useCallback((id: string) => {
     setFunctions((prev) => prev.filter((f) => f.id !== id));
   }, []);
@@ -290,6 +662,210 @@ export default function App() {
     setXDomain(DEFAULT_X_DOMAIN);
     setYDomain(DEFAULT_Y_DOMAIN);
   }, []);
+
+  const applyGraphState = useCallback((state: GraphState) => {
+    setFunctions(state.functions);
+    setXDomain(state.xDomain);
+    setYDomain(state.yDomain);
+    setGridDensity(state.gridDensity);
+    setAspectLocked(state.aspectLocked);
+    setParameters(state.parameters);
+    setSliders(state.sliders);
+  }, []);
+
+  const graphState = useMemo<GraphState>(() => ({
+    functions,
+    xDomain,
+    yDomain,
+    gridDensity,
+    aspectLocked,
+    parameters: recordedParameters,
+    sliders
+  }), [functions, xDomain, yDomain, gridDensity, aspectLocked, recordedParameters, sliders]);
+
+  const isSyncChange = useCallback((previous: GraphState, next: GraphState) => {
+    const synced = syncedRef.current;
+    return synced !== null
+      && (next.parameters !== previous.parameters || next.sliders !== previous.sliders)
+      && (next.parameters === previous.parameters || next.parameters === synced.parameters)
+      && (next.sliders === previous.sliders || next.sliders === synced.sliders)
+      && next.functions === previous.functions
+      && next.xDomain === previous.xDomain
+      && next.yDomain === previous.yDomain
+      && next.gridDensity === previous.gridDensity
+      && next.aspectLocked === previous.aspectLocked;
+  }, []);
+
+  const { canUndo, canRedo, undo, redo, reset: resetHistory } = useGraphHistory(graphState, applyGraphState, isSyncChange);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Other text fields keep their native undo; expression fields undo through the graph history.
+      const target = e.target instanceof Element ? e.target : null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]') && !target.closest('[data-function-expression]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Autosave into the active workspace once edits settle.
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      setWorkspaceStore((prev) => updateWorkspace(prev, prev.activeId, { state: graphState }));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [graphState]);
+
+  useEffect(() => {
+    saveWorkspaceStore(workspaceStore);
+  }, [workspaceStore]);
+
+  // Store the current graph before leaving it, then show the target workspace.
+  const openWorkspace = useCallback((update: (store: WorkspaceStore) => WorkspaceStore) => {
+    const next = update(updateWorkspace(workspaceStore, workspaceStore.activeId, { state: graphState }));
+    setWorkspaceStore(next);
+    resetHistory(getActiveWorkspace(next).state);
+  }, [workspaceStore, graphState, resetHistory]);
+
+  const addWorkspace = useCallback((name: string, state: GraphState) => {
+    const workspace = createWorkspace(name, state);
+    openWorkspace((store) => ({ activeId: workspace.id, workspaces: [...store.workspaces, workspace] }));
+  }, [openWorkspace]);
+
+  const switchWorkspace = useCallback((id: string) => {
+    openWorkspace((store) => ({ ...store, activeId: id }));
+  }, [openWorkspace]);
+
+  const activeWorkspace = getActiveWorkspace(workspaceStore);
+
+  const createNewWorkspace = useCallback(() => {
+    addWorkspace(`Graph ${workspaceStore.workspaces.length + 1}`, DEFAULT_GRAPH_STATE);
+  }, [addWorkspace, workspaceStore.workspaces.length]);
+
+  const duplicateWorkspace = useCallback(() => {
+    addWorkspace(`${activeWorkspace.name} copy`, graphState);
+  }, [addWorkspace, activeWorkspace.name, graphState]);
+
+  const deleteWorkspace = useCallback(() => {
+    openWorkspace((store) => {
+      const remaining = store.workspaces.filter((w) => w.id !== store.activeId);
+      if (remaining.length === 0) {
+        const workspace = createWorkspace('Graph 1', DEFAULT_GRAPH_STATE);
+        return { activeId: workspace.id, workspaces: [workspace] };
+      }
+      return { activeId: remaining[0].id, workspaces: remaining };
+    });
+  }, [openWorkspace]);
+
+  const renameWorkspace = useCallback((name: string) => {
+    setWorkspaceStore((prev) => updateWorkspace(prev, prev.activeId, { name }));
+  }, []);
+
+  const exportWorkspace = useCallback(() => {
+    const workspace = { ...activeWorkspace, state: graphState };
+    downloadBlob(new Blob([serializeWorkspaceFile(workspace)], { type: 'application/json' }), getWorkspaceFileName(workspace));
+  }, [activeWorkspace, graphState]);
+
+  const importWorkspace = useCallback((content: string) => {
+    const imported = parseWorkspaceFile(content);
+    if (!imported) return false;
+    addWorkspace(imported.name, imported.state);
+    return true;
+  }, [addWorkspace]);
+
+  // Open a shared graph from the URL hash in its own workspace, on load and when a link is
+  // pasted into this tab, so it never overwrites local work.
+  const addWorkspaceRef = useRef(addWorkspace);
+  addWorkspaceRef.current = addWorkspace;
+
+  useEffect(() => {
+    let cancelled = false;
+    const restoreFromHash = () => {
+      decodeShareHash(window.location.hash).then((state) => {
+        if (!state || cancelled) return;
+        addWorkspaceRef.current('Shared graph', state);
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      });
+    };
+
+    restoreFromHash();
+    window.addEventListener('hashchange', restoreFromHash);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', restoreFromHash);
+    };
+  }, []);
+
+  const copyShareLink = useCallback(async () => {
+    const hash = await encodeShareHash(graphState);
+    const { origin, pathname, search } = window.location;
+    try {
+      await navigator.clipboard.writeText(`${origin}${pathname}${search}#${hash}`);
+      setLinkCopied(true);
+    } catch {
+      setLinkCopied(false);
+    }
+  }, [graphState]);
+
+  const exportImage = useCallback(async (format: ImageFormat, options: ImageExportOptions) => {
+    const svg = graphAreaRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!svg) return 'The graph is not on screen';
+
+    const legend = functions
+      .filter((f) => f.visible && (f.series || f.expr.trim()))
+      .map((f) => ({ color: f.color, label: f.series?.name ?? f.expr }));
+    const baseName = getWorkspaceFileName(activeWorkspace).replace(/\.graph\.json$/, '');
+    try {
+      await exportGraphImage(svg, format, options, legend, baseName);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Export failed';
+    }
+  }, [functions, activeWorkspace]);
+
+  // Sampled in the worker pool at the values the graph is drawn with, time included.
+  const exportData = useCallback(async (options: DataExportOptions) => {
+    const pool = poolRef.current;
+    if (!pool) return 'Export is not available right now';
+    const { format, ...sampling } = options;
+    const outcome = await pool.submit(DATA_EXPORT_JOB_KEY, {
+      kind: 'dataExport',
+      functions: expressionFunctions.map(({ id, expr, visible }) => ({ id, expr, visible })),
+      options: sampling,
+      yDomain,
+      parameters: animatedParameters
+    });
+    if (!outcome) return 'The curves could not be sampled';
+
+    const samples = outcome.result;
+    if (samples.explicit.functions.length === 0 && samples.curves.length === 0) {
+      return 'No visible curves to sample';
+    }
+
+    const baseName = getWorkspaceFileName(activeWorkspace).replace(/\.graph\.json$/, '');
+    if (format === 'csv') {
+      downloadBlob(new Blob([serializeSamplesCsv(samples)], { type: 'text/csv' }), `${baseName}.csv`);
+    } else {
+      downloadBlob(new Blob([serializeSamplesJson(samples)], { type: 'application/json' }), `${baseName}.samples.json`);
+    }
+    return null;
+  }, [expressionFunctions, yDomain, animatedParameters, activeWorkspace]);
+
+  useEffect(() => {
+    if (!linkCopied) return;
+    const timeout = window.setTimeout(() => setLinkCopied(false), LINK_COPIED_MS);
+    return () => window.clearTimeout(timeout);
+  }, [linkCopied]);
 
   // Sidebar resizing logic
   useEffect(() => {
@@ -333,6 +909,45 @@ export default function App() {
           </div>
           
           <div className="flex items-center gap-4">
+            <div className="flex gap-1">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+            </div>
+            <WorkspaceMenu
+              workspaces={workspaceStore.workspaces}
+              activeId={activeWorkspace.id}
+              onSwitch={switchWorkspace}
+              onCreate={createNewWorkspace}
+              onDuplicate={duplicateWorkspace}
+              onDelete={deleteWorkspace}
+              onRename={renameWorkspace}
+              onExport={exportWorkspace}
+              onImport={importWorkspace}
+            />
+            <ExportMenu onExport={exportImage} />
+            <DataExportMenu xDomain={xDomain} onExport={exportData} />
+            <button
+              onClick={copyShareLink}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              title="Copy a link to this graph"
+            >
+              {linkCopied ? <Check className="w-4 h-4 text-emerald-600" /> : <Link className="w-4 h-4" />}
+              {linkCopied ? 'Copied' : 'Copy link'}
+            </button>
             <a
               href="https://github.com/google/gemini-api"
               target="_blank"
@@ -360,7 +975,13 @@ export default function App() {
                 onUpdateFunction={updateFunction}
                 onRemoveFunction={removeFunction}
                 onUploadData={handleDataUpload}
-                onDifferentiate={differentiateFunction}
+                onDerive={deriveFunction}
+                functionDataMap={functionDataMap}
+                diagnostics={diagnostics}
+                fits={fits}
+                onFit={runFit}
+                onToggleResiduals={toggleResiduals}
+                onApplySymbolic={applySymbolicResult}
               />
             </div>
 
@@ -373,9 +994,20 @@ export default function App() {
               onUpdateGridDensity={setGridDensity}
               aspectLocked={aspectLocked}
               onToggleAspectLocked={setAspectLocked}
+              showAsymptotes={showAsymptotes}
+              onToggleShowAsymptotes={setShowAsymptotes}
+              showPointsOfInterest={showPointsOfInterest}
+              onToggleShowPointsOfInterest={setShowPointsOfInterest}
+              tangentMode={tangentMode}
+              onToggleTangentMode={setTangentMode}
               onReset={resetView}
               parameters={parameters}
-              onUpdateParameters={setParameters}
+              onUpdateParameters={updateParameters}
+              sliders={sliders}
+              declaredSliders={declaredSliderNames}
+              onUpdateSlider={updateSlider}
+              playingParameters={playingParameters}
+              onToggleParameterAnimation={toggleParameterAnimation}
             />
 
             <Documentation />
@@ -392,7 +1024,7 @@ export default function App() {
 
         {/* Main Graph Area */}
         <div className="flex-1 p-6 overflow-hidden bg-white">
-          <div className="w-full h-full bg-white rounded-xl shadow-sm border border-gray-200 p-1 relative">
+          <div ref={graphAreaRef} className="w-full h-full bg-white rounded-xl shadow-sm border border-gray-200 p-1 relative">
             <Graph
               data={data}
               functions={functions}
@@ -404,9 +1036,23 @@ export default function App() {
               onUpdateXDomain={setXDomain}
               onUpdateYDomain={setYDomain}
               aspectLocked={aspectLocked}
-              onInteractionChange={setIsGraphInteracting}
+              showAsymptotes={showAsymptotes}
+              pointsOfInterest={pointsOfInterest}
+              parameters={hasTimeDrivenFunction ? animatedParameters : parameters}
+              onUpdateParameters={updateParameters}
+              tangentMode={tangentMode}
             />
             
+            {hasTimeDrivenFunction && (
+              <TimeTransport
+                timeSeconds={timeSeconds}
+                playback={timePlayback}
+                onUpdatePlayback={setTimePlayback}
+                onSeek={seekTime}
+                onStep={stepTime}
+              />
+            )}
+
             <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur px-3 py-2 rounded-lg border border-gray-200 text-xs text-gray-500 shadow-sm pointer-events-none">
               <p>
                 Showing {data.length} data points across x=[{xDomain[0].toFixed(1)}, {xDomain[1].toFixed(1)}]
@@ -414,7 +1060,7 @@ export default function App() {
               <p className="mt-1">
                 Scroll to zoom • Drag to pan • Drag points to edit geometry
               </p>
-              {isImplicitStale && (
+              {isImplicitPending && (
                 <p className="mt-1 text-blue-600">
                   Rendering implicit curves...
                 </p>
@@ -423,6 +1069,15 @@ export default function App() {
           </div>
         </div>
       </main>
+
+      {pendingImport && (
+        <DataImportDialog
+          fileName={pendingImport.fileName}
+          content={pendingImport.content}
+          onImport={importDataSeries}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
     </div>
   );
 }
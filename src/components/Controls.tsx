@@ -1,4 +1,7 @@
-import { RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { RotateCcw, ZoomIn, ZoomOut, Play, Pause, SlidersHorizontal } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { SliderConfig, SliderAnimationMode, SLIDER_SPEEDS, getSliderConfig } from '../lib/parameterSliders';
+import { useState } from 'react';
 import React from 'react';
 
 interface ControlsProps {
@@ -10,11 +13,145 @@ interface ControlsProps {
   onUpdateGridDensity: (density: number) => void;
   aspectLocked: boolean;
   onToggleAspectLocked: (locked: boolean) => void;
+  showAsymptotes: boolean;
+  onToggleShowAsymptotes: (show: boolean) => void;
+  showPointsOfInterest: boolean;
+  onToggleShowPointsOfInterest: (show: boolean) => void;
+  tangentMode: boolean;
+  onToggleTangentMode: (enabled: boolean) => void;
   onReset: () => void;
   parameters: Record<string, number>;
   onUpdateParameters: (params: Record<string, number>) => void;
+  sliders: Record<string, SliderConfig>;
+  // Parameters whose range comes from a slider(...) declaration in a script.
+  declaredSliders: string[];
+  onUpdateSlider: (name: string, config: SliderConfig) => void;
+  playingParameters: string[];
+  onToggleParameterAnimation: (name: string) => void;
 }
 
+interface ParameterSliderProps {
+  name: string;
+  value: number;
+  config: SliderConfig;
+  declared: boolean;
+  playing: boolean;
+  onChange: (value: number) => void;
+  onUpdateConfig: (config: SliderConfig) => void;
+  onTogglePlaying: () => void;
+}
+
+const MODE_OPTIONS: { value: SliderAnimationMode; label: string }[] = [
+  { value: 'bounce', label: 'Bounce' },
+  { value: 'loop', label: 'Loop' },
+  { value: 'once', label: 'Once' }
+];
+
+function ParameterSliderComponent({ name, value, config, declared, playing, onChange, onUpdateConfig, onTogglePlaying }: ParameterSliderProps) {
+  const [expanded, setExpanded] = useState(false);
+  const inputClass = "w-full min-w-0 px-2 py-1 text-xs font-mono border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-400";
+
+  // Range edits that would leave an empty or inverted range are ignored until they make sense.
+  const updateRange = (patch: Partial<Pick<SliderConfig, 'min' | 'max' | 'step'>>) => {
+    const next = { ...config, ...patch };
+    if (!isFinite(next.min) || !isFinite(next.max) || !(next.min < next.max) || !(next.step > 0)) return;
+    onUpdateConfig(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <label className="text-xs font-medium text-gray-500 font-mono">{name}</label>
+        <input
+          type="number"
+          value={Number(value.toFixed(6))}
+          step={config.step}
+          onChange={(e) => {
+            if (e.target.value !== '' && isFinite(Number(e.target.value))) onChange(Number(e.target.value));
+          }}
+          className="ml-auto w-20 px-1.5 py-0.5 text-xs font-mono text-right border border-gray-200 rounded focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="button"
+          onClick={onTogglePlaying}
+          className={cn(
+            "p-1 rounded transition-colors",
+            playing ? "text-blue-600 bg-blue-50" : "text-gray-400 hover:text-blue-600 hover:bg-blue-50"
+          )}
+          title={playing ? "Pause" : "Animate"}
+        >
+          {playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </button>
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className={cn(
+            "p-1 rounded transition-colors",
+            expanded ? "text-blue-600 bg-blue-50" : "text-gray-400 hover:text-blue-600 hover:bg-blue-50"
+          )}
+          title="Slider settings"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <input
+        type="range"
+        min={config.min}
+        max={config.max}
+        step={config.step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+      />
+      {expanded && (
+        <div className="grid grid-cols-3 gap-2 pt-1">
+          {(['min', 'max', 'step'] as const).map((key) => (
+            <label key={key} className="space-y-0.5">
+              <span className="block text-[10px] font-medium text-gray-400 uppercase">{key}</span>
+              <input
+                type="number"
+                value={config[key]}
+                step="any"
+                disabled={declared}
+                title={declared ? "Set by slider(...) in the expression" : undefined}
+                onChange={(e) => updateRange({ [key]: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+          <label className="col-span-2 space-y-0.5">
+            <span className="block text-[10px] font-medium text-gray-400 uppercase">Animation</span>
+            <select
+              value={config.mode}
+              onChange={(e) => onUpdateConfig({ ...config, mode: e.target.value as SliderAnimationMode })}
+              className={inputClass}
+            >
+              {MODE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-0.5">
+            <span className="block text-[10px] font-medium text-gray-400 uppercase">Speed</span>
+            <select
+              value={config.speed}
+              onChange={(e) => onUpdateConfig({ ...config, speed: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {SLIDER_SPEEDS.map((speed) => (
+                <option key={speed} value={speed}>{speed}×</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const ParameterSlider = React.memo(ParameterSliderComponent);
+ParameterSlider.displayName = 'ParameterSlider';
+
 function ControlsComponent({
   xDomain,
   yDomain,
@@ -24,9 +161,20 @@ function ControlsComponent({
   onUpdateGridDensity,
   aspectLocked,
   onToggleAspectLocked,
+  showAsymptotes,
+  onToggleShowAsymptotes,
+  showPointsOfInterest,
+  onToggleShowPointsOfInterest,
+  tangentMode,
+  onToggleTangentMode,
   onReset,
   parameters,
   onUpdateParameters,
+  sliders,
+  declaredSliders,
+  onUpdateSlider,
+  playingParameters,
+  onToggleParameterAnimation,
 }: ControlsProps) {
   const handleZoom = (factor: number) => {
     const xMid = (xDomain[0] + xDomain[1]) / 2;
@@ -72,21 +220,17 @@ function ControlsComponent({
           <div className="space-y-4 pb-4 border-b border-gray-200">
             <h4 className="text-xs font-semibold text-gray-900 uppercase tracking-wider">Parameters</h4>
             {Object.entries(parameters).map(([name, value]) => (
-              <div key={name} className="space-y-1">
-                 <div className="flex justify-between">
-                  <label className="block text-xs font-medium text-gray-500 font-mono">{name}</label>
-                  <span className="text-xs text-gray-400 font-mono">{value.toFixed(2)}</span>
-                </div>
-                <input
-                  type="range"
-                  min="-10"
-                  max="10"
-                  step="0.1"
-                  value={value}
-                  onChange={(e) => onUpdateParameters({ ...parameters, [name]: Number(e.target.value) })}
-                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                />
-              </div>
+              <ParameterSlider
+                key={name}
+                name={name}
+                value={value}
+                config={getSliderConfig(sliders, name)}
+                declared={declaredSliders.includes(name)}
+                playing={playingParameters.includes(name)}
+                onChange={(next) => onUpdateParameters({ ...parameters, [name]: next })}
+                onUpdateConfig={(config) => onUpdateSlider(name, config)}
+                onTogglePlaying={() => onToggleParameterAnimation(name)}
+              />
             ))}
           </div>
         )}
@@ -122,6 +266,51 @@ function ControlsComponent({
           </button>
         </div>
 
+        <div className="flex items-center justify-between">
+          <label className="block text-xs font-medium text-gray-500 uppercase">Asymptotes</label>
+          <button
+            type="button"
+            onClick={() => onToggleShowAsymptotes(!showAsymptotes)}
+            className={`px-2 py-1 text-xs rounded border transition-colors ${
+              showAsymptotes
+                ? 'bg-blue-50 text-blue-700 border-blue-200'
+                : 'bg-gray-50 text-gray-600 border-gray-200'
+            }`}
+          >
+            {showAsymptotes ? 'Shown' : 'Hidden'}
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="block text-xs font-medium text-gray-500 uppercase">Points of Interest</label>
+          <button
+            type="button"
+            onClick={() => onToggleShowPointsOfInterest(!showPointsOfInterest)}
+            className={`px-2 py-1 text-xs rounded border transition-colors ${
+              showPointsOfInterest
+                ? 'bg-blue-50 text-blue-700 border-blue-200'
+                : 'bg-gray-50 text-gray-600 border-gray-200'
+            }`}
+          >
+            {showPointsOfInterest ? 'Shown' : 'Hidden'}
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="block text-xs font-medium text-gray-500 uppercase">Tangent Tool</label>
+          <button
+            type="button"
+            onClick={() => onToggleTangentMode(!tangentMode)}
+            className={`px-2 py-1 text-xs rounded border transition-colors ${
+              tangentMode
+                ? 'bg-blue-50 text-blue-700 border-blue-200'
+                : 'bg-gray-50 text-gray-600 border-gray-200'
+            }`}
+          >
+            {tangentMode ? 'On' : 'Off'}
+          </button>
+        </div>
+
         <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <label className="block text-xs font-medium text-gray-500 uppercase">X Axis</label>
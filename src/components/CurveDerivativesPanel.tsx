@@ -0,0 +1,42 @@
+import { CurveDerivatives } from '../lib/symbolic';
+import { MathView } from './MathView';
+import React from 'react';
+
+interface CurveDerivativesPanelProps {
+  derivatives: CurveDerivatives | { error: string };
+  onAdd: (expr: string) => void;
+}
+
+const BUTTON_CLASS = "shrink-0 px-2 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors";
+
+function CurveDerivativesPanelComponent({ derivatives, onAdd }: CurveDerivativesPanelProps) {
+  if ('error' in derivatives) {
+    return <div className="text-red-600">{derivatives.error}</div>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {derivatives.derivatives.map((item) => (
+        <div key={item.label} className="flex items-center gap-2">
+          <span className="w-14 shrink-0 font-mono text-gray-500">{item.label}</span>
+          <div className="flex-1 min-w-0 py-1 overflow-x-auto">
+            <MathView node={item.node} />
+          </div>
+          <button onClick={() => onAdd(item.expr)} className={BUTTON_CLASS} title={`Plot ${item.label}: ${item.expr}`}>
+            Plot
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onAdd(derivatives.hodograph)}
+        className={BUTTON_CLASS}
+        title={`Curve traced by the velocity vector: ${derivatives.hodograph}`}
+      >
+        Add hodograph
+      </button>
+    </div>
+  );
+}
+
+export const CurveDerivativesPanel = React.memo(CurveDerivativesPanelComponent);
+CurveDerivativesPanel.displayName = 'CurveDerivativesPanel';
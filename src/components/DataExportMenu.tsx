@@ -0,0 +1,126 @@
+import { ChevronDown, Table } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { DataExportOptions, DataFormat, MIN_SAMPLE_COUNT, MAX_SAMPLE_COUNT } from '../lib/dataExport';
+import { useState } from 'react';
+import React from 'react';
+
+interface DataExportMenuProps {
+  xDomain: [number, number];
+  // Resolves with an error message when there is nothing to export.
+  onExport: (options: DataExportOptions) => Promise<string | null>;
+}
+
+function DataExportMenuComponent({ xDomain, onExport }: DataExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sampleCount, setSampleCount] = useState('1000');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [format, setFormat] = useState<DataFormat>('csv');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The range starts out as the current view each time the menu opens.
+  const toggleOpen = () => {
+    if (!isOpen) {
+      setFrom(String(xDomain[0]));
+      setTo(String(xDomain[1]));
+      setError(null);
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleExport = async () => {
+    const count = Math.round(Number(sampleCount));
+    const xMin = Number(from);
+    const xMax = Number(to);
+    if (!isFinite(count) || count < MIN_SAMPLE_COUNT || count > MAX_SAMPLE_COUNT) {
+      setError(`Samples must be between ${MIN_SAMPLE_COUNT} and ${MAX_SAMPLE_COUNT}`);
+      return;
+    }
+    if (!from.trim() || !to.trim() || !isFinite(xMin) || !isFinite(xMax) || xMin >= xMax) {
+      setError('The x range needs a start below its end');
+      return;
+    }
+
+    setBusy(true);
+    const message = await onExport({ sampleCount: count, xRange: [xMin, xMax], format });
+    setBusy(false);
+    setError(message);
+    if (!message) setIsOpen(false);
+  };
+
+  const inputClass = "w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+  const formatClass = "flex-1 px-3 py-1 text-sm font-medium rounded transition-colors";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggleOpen}
+        className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+        title="Export sampled curve data"
+      >
+        <Table className="w-4 h-4" />
+        Data
+        <ChevronDown className="w-3.5 h-3.5 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-30 space-y-3">
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-gray-500">Samples</label>
+            <input
+              type="number"
+              min={MIN_SAMPLE_COUNT}
+              max={MAX_SAMPLE_COUNT}
+              value={sampleCount}
+              onChange={(e) => setSampleCount(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-gray-500">x range</label>
+            <div className="flex items-center gap-2">
+              <input type="number" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+              <span className="text-gray-400">to</span>
+              <input type="number" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-md">
+            {(['csv', 'json'] as DataFormat[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setFormat(option)}
+                className={cn(
+                  formatClass,
+                  format === option ? "bg-white text-gray-900 shadow-sm" : "text-gray-500 hover:text-gray-700"
+                )}
+              >
+                {option.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Explicit functions share the x column. Parametric and polar curves use their own parameter range;
+            implicit curves are traced over the x range and the visible y range.
+          </p>
+
+          <button
+            onClick={handleExport}
+            disabled={busy}
+            className="w-full px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {busy ? 'Sampling...' : 'Download'}
+          </button>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const DataExportMenu = React.memo(DataExportMenuComponent);
+DataExportMenu.displayName = 'DataExportMenu';
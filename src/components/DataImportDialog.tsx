@@ -0,0 +1,210 @@
+import { X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { DataSeries, DataSeriesStyle } from './FunctionList';
+import { parseTable, getColumnPoints, TABLE_DELIMITERS, TableDelimiter } from '../lib/tableImport';
+import { useState, useMemo } from 'react';
+import React from 'react';
+
+interface DataImportDialogProps {
+  fileName: string;
+  content: string;
+  onImport: (series: DataSeries[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+// Sentinel for "use the row number as x".
+const ROW_INDEX_COLUMN = -1;
+
+function DataImportDialogComponent({ fileName, content, onImport, onClose }: DataImportDialogProps) {
+  const [delimiter, setDelimiter] = useState<TableDelimiter | 'auto'>('auto');
+  const [header, setHeader] = useState<'auto' | 'yes' | 'no'>('auto');
+
+  const table = useMemo(() => parseTable(content, {
+    delimiter: delimiter === 'auto' ? undefined : delimiter,
+    hasHeader: header === 'auto' ? undefined : header === 'yes'
+  }), [content, delimiter, header]);
+
+  // Starts with the first column as x and every other column as a series; a single column is
+  // plotted against the row number.
+  const [xColumn, setXColumn] = useState(() => (table.columnCount > 1 ? 0 : ROW_INDEX_COLUMN));
+  const [yColumns, setYColumns] = useState<number[]>(() => (
+    Array.from({ length: table.columnCount }, (_, i) => i).filter((i) => i !== 0 || table.columnCount === 1)
+  ));
+  const [style, setStyle] = useState<DataSeriesStyle>('scatter');
+
+  // Mappings from a previous parse may point past the columns of the current one.
+  const validXColumn = xColumn < table.columnCount ? xColumn : ROW_INDEX_COLUMN;
+  const validYColumns = yColumns.filter((column) => column < table.columnCount && column !== validXColumn);
+
+  const toggleYColumn = (column: number) => {
+    setYColumns((prev) => (prev.includes(column) ? prev.filter((c) => c !== column) : [...prev, column].sort((a, b) => a - b)));
+  };
+
+  const handleImport = () => {
+    const series = validYColumns
+      .map((column) => ({
+        name: table.headers[column],
+        style,
+        points: getColumnPoints(table, validXColumn === ROW_INDEX_COLUMN ? null : validXColumn, column)
+      }))
+      .filter((s) => s.points.length > 0);
+    if (series.length > 0) onImport(series);
+  };
+
+  const selectClass = "px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onMouseDown={onClose}>
+      <div
+        className="w-[42rem] max-w-[95vw] max-h-[85vh] flex flex-col bg-white rounded-xl shadow-xl border border-gray-200"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-gray-900">Import data</h3>
+            <p className="text-xs text-gray-500 truncate">{fileName} · {table.rows.length} rows</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              Delimiter
+              <select
+                value={delimiter}
+                onChange={(e) => setDelimiter(e.target.value as TableDelimiter | 'auto')}
+                className={selectClass}
+              >
+                <option value="auto">Auto ({TABLE_DELIMITERS.find((d) => d.value === table.delimiter)?.label})</option>
+                {TABLE_DELIMITERS.map((d) => (
+                  <option key={d.label} value={d.value}>{d.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Header row
+              <select
+                value={header}
+                onChange={(e) => setHeader(e.target.value as 'auto' | 'yes' | 'no')}
+                className={selectClass}
+              >
+                <option value="auto">Auto ({table.hasHeader ? 'yes' : 'no'})</option>
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-xs font-mono">
+              <thead className="bg-gray-50">
+                <tr>
+                  {table.headers.map((name, column) => (
+                    <th
+                      key={column}
+                      className={cn(
+                        "px-2 py-1.5 text-left font-medium whitespace-nowrap",
+                        column === validXColumn ? "text-blue-700 bg-blue-50"
+                          : validYColumns.includes(column) ? "text-emerald-700 bg-emerald-50"
+                          : "text-gray-600"
+                      )}
+                    >
+                      {name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <tr key={index} className="border-t border-gray-100">
+                    {table.headers.map((_name, column) => (
+                      <td key={column} className="px-2 py-1 text-gray-700 whitespace-nowrap">{row[column] ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {table.rows.length > PREVIEW_ROWS && (
+              <div className="px-2 py-1 text-xs text-gray-400 border-t border-gray-100">
+                … {table.rows.length - PREVIEW_ROWS} more rows
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-sm text-gray-700">
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-gray-500">x column</label>
+              <select
+                value={validXColumn}
+                onChange={(e) => setXColumn(Number(e.target.value))}
+                className={cn(selectClass, "w-full")}
+              >
+                <option value={ROW_INDEX_COLUMN}>Row number</option>
+                {table.headers.map((name, column) => (
+                  <option key={column} value={column}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-gray-500">Draw as</label>
+              <div className="flex gap-1 p-1 bg-gray-100 rounded-md">
+                {(['scatter', 'line'] as DataSeriesStyle[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setStyle(option)}
+                    className={cn(
+                      "flex-1 px-3 py-0.5 text-sm font-medium rounded transition-colors",
+                      style === option ? "bg-white text-gray-900 shadow-sm" : "text-gray-500 hover:text-gray-700"
+                    )}
+                  >
+                    {option === 'scatter' ? 'Points' : 'Line'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-gray-500">y columns (one series each)</label>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {table.headers.map((name, column) => column !== validXColumn && (
+                <label key={column} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={validYColumns.includes(column)}
+                    onChange={() => toggleYColumn(column)}
+                    className="accent-blue-600"
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 py-3 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={validYColumns.length === 0}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Import {validYColumns.length === 1 ? 'series' : `${validYColumns.length} series`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const DataImportDialog = React.memo(DataImportDialogComponent);
+DataImportDialog.displayName = 'DataImportDialog';
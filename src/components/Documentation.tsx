@@ -37,9 +37,18 @@ function DocumentationComponent() {
                 <li>Functions: <code>sin, cos, tan, log, sqrt</code> (also <code>√</code>)</li>
                 <li>Constants: <code>pi, e</code> (also <code>π</code>)</li>
                 <li>Logic: <code>x &lt; 0 ? -1 : 1</code> (Piecewise)</li>
-                <li>Geometry: <code>(x, y)</code> or <code>(x1, y1), (x2, y2)</code></li>
+                <li>Geometry: <code>(x, y)</code>, <code>segment((0, 0), (1, 2))</code>, likewise <code>polyline</code>, <code>polygon</code>, <code>ray</code>, <code>line</code>, <code>vector</code>, and <code>circle((0, 0), 2)</code>; points may be named points or expressions, e.g. <code>segment(A, B)</code> or <code>circle(A, a)</code>, and only number pairs can be dragged</li>
+                <li>Measurements: name a shape, <code>P1 = polygon(...)</code>, then use <code>area(P1)</code> (signed), <code>perimeter(P1)</code>, <code>centroidX(P1)</code>, <code>centroidY(P1)</code> or <code>distance(A, B)</code>; the ruler button labels them on the graph</li>
+                <li>Gliders: <code>A = point on f at 1</code> is a point that only slides along <code>f</code> when dragged; name other curves first, e.g. <code>C = (cos(t), sin(t))</code> or <code>C = x^2 + y^2 = 4</code>. The value after <code>at</code> is the curve parameter (or a slider name), and <code>A.x</code> and <code>A.y</code> can be used in other expressions</li>
+                <li>Inequalities: <code>y &gt; x^2</code>, <code>{'{x > 0, y < sin(x)}'}</code> (dashed = strict)</li>
+                <li>Ranges: <code>(cos(t), sin(t)) {'{0 <= t <= 2pi}'}</code>, <code>r = theta {'{0 <= theta <= a*pi}'}</code></li>
+                <li>Integrals: <code>integral(sin(x), 0, pi)</code>, <code>integral(x, x^2, 0, 1)</code> (between curves)</li>
                 <li>ML/Shader: <code>max, min, floor, mod, tanh</code></li>
                 <li>Scripting: Define variables on separate lines. Last line is result.</li>
+                <li>Sliders: <code>a = slider(0, 5, 0.01)</code> sets the range (and optional start value) of parameter <code>a</code></li>
+                <li>Named functions: <code>f(x) = x^2 - 1</code>, then <code>f(x - 2)</code>, <code>f'(x)</code> or <code>g(f(x))</code> in other rows</li>
+                <li>Curve calculus: the Σ panel of a parametric or polar row lists <code>dx/dt</code>, <code>dy/dx</code> and more, and the arrow button draws velocity vectors</li>
+                <li>Derived functions: the branch button adds a derivative, antiderivative, inverse or transformed copy that updates with its source until detached</li>
               </ul>
             </div>
             
@@ -0,0 +1,120 @@
+import { ChevronDown, ImageIcon } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { ImageExportOptions, ImageFormat } from '../lib/graphExport';
+import { useState } from 'react';
+import React from 'react';
+
+interface ExportMenuProps {
+  // Resolves with an error message when the image could not be produced.
+  onExport: (format: ImageFormat, options: ImageExportOptions) => Promise<string | null>;
+}
+
+const SCALES = [1, 2, 3, 4];
+
+function ExportMenuComponent({ onExport }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ImageExportOptions>({
+    scale: 2,
+    transparent: false,
+    hideGrid: false,
+    legend: true
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateOption = <K extends keyof ImageExportOptions>(key: K, value: ImageExportOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleExport = async (format: ImageFormat) => {
+    setBusy(true);
+    const message = await onExport(format, options);
+    setBusy(false);
+    setError(message);
+    if (!message) setIsOpen(false);
+  };
+
+  const checkboxClass = "flex items-center gap-2 text-sm text-gray-700 cursor-pointer";
+  const buttonClass = "flex-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors disabled:opacity-50";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+        title="Export the graph as an image"
+      >
+        <ImageIcon className="w-4 h-4" />
+        Image
+        <ChevronDown className="w-3.5 h-3.5 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-60 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-30 space-y-3">
+          <label className={checkboxClass}>
+            <input
+              type="checkbox"
+              checked={options.transparent}
+              onChange={(e) => updateOption('transparent', e.target.checked)}
+              className="accent-blue-600"
+            />
+            Transparent background
+          </label>
+          <label className={checkboxClass}>
+            <input
+              type="checkbox"
+              checked={options.hideGrid}
+              onChange={(e) => updateOption('hideGrid', e.target.checked)}
+              className="accent-blue-600"
+            />
+            Hide grid
+          </label>
+          <label className={checkboxClass}>
+            <input
+              type="checkbox"
+              checked={options.legend}
+              onChange={(e) => updateOption('legend', e.target.checked)}
+              className="accent-blue-600"
+            />
+            Legend
+          </label>
+
+          <div className="flex items-center justify-between text-sm text-gray-700">
+            <span>PNG scale</span>
+            <select
+              value={options.scale}
+              onChange={(e) => updateOption('scale', Number(e.target.value))}
+              className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {SCALES.map((scale) => (
+                <option key={scale} value={scale}>{scale}×</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2 border-t border-gray-100 pt-3">
+            <button
+              onClick={() => handleExport('svg')}
+              disabled={busy}
+              className={cn(buttonClass, "text-gray-700 border border-gray-300 hover:bg-gray-50")}
+            >
+              SVG
+            </button>
+            <button
+              onClick={() => handleExport('png')}
+              disabled={busy}
+              className={cn(buttonClass, "text-white bg-blue-600 hover:bg-blue-700")}
+            >
+              PNG
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const ExportMenu = React.memo(ExportMenuComponent);
+ExportMenu.displayName = 'ExportMenu';
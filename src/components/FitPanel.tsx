@@ -0,0 +1,103 @@
+import { cn } from '../lib/utils';
+import { formatCoordinate } from '../lib/mathUtils';
+import { FitModelKind, FitSpec, SeriesFit, MAX_POLYNOMIAL_DEGREE } from '../lib/regression';
+import { useState } from 'react';
+import React from 'react';
+
+interface FitPanelProps {
+  fit?: SeriesFit;
+  onFit: (spec: FitSpec) => void;
+  onToggleResiduals: () => void;
+}
+
+const MODEL_OPTIONS: { value: FitModelKind; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'polynomial', label: 'Polynomial' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'logistic', label: 'Logistic' },
+  { value: 'custom', label: 'Custom' }
+];
+
+const DEFAULT_SPEC: FitSpec = { kind: 'linear', degree: 2, customExpr: 'a*sin(b*x + c)' };
+
+function formatStatistic(value: number): string {
+  return isFinite(value) ? formatCoordinate(value) : '—';
+}
+
+function FitPanelComponent({ fit, onFit, onToggleResiduals }: FitPanelProps) {
+  const [spec, setSpec] = useState<FitSpec>(fit?.spec ?? DEFAULT_SPEC);
+  const result = fit?.result;
+  const inputClass = "min-w-0 px-2 py-1 bg-gray-50 border border-gray-200 rounded focus:outline-none focus:bg-white focus:border-blue-500";
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <select
+          value={spec.kind}
+          onChange={(e) => setSpec({ ...spec, kind: e.target.value as FitModelKind })}
+          className={cn(inputClass, "flex-1")}
+        >
+          {MODEL_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {spec.kind === 'polynomial' && (
+          <input
+            type="number"
+            min={1}
+            max={MAX_POLYNOMIAL_DEGREE}
+            value={spec.degree}
+            onChange={(e) => setSpec({ ...spec, degree: Number(e.target.value) })}
+            className={cn(inputClass, "w-14")}
+            title="Degree"
+          />
+        )}
+        <button
+          onClick={() => onFit(spec)}
+          disabled={fit?.pending}
+          className="px-3 py-1 font-medium text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {fit?.pending ? 'Fitting…' : 'Fit'}
+        </button>
+      </div>
+
+      {spec.kind === 'custom' && (
+        <input
+          type="text"
+          value={spec.customExpr}
+          onChange={(e) => setSpec({ ...spec, customExpr: e.target.value })}
+          placeholder="a*sin(b*x + c)"
+          className={cn(inputClass, "w-full font-mono")}
+          title="Model in x; every other symbol is fitted"
+          spellCheck={false}
+        />
+      )}
+
+      {fit?.error && <div className="text-red-600">{fit.error}</div>}
+
+      {result && (
+        <div className="space-y-1 font-mono text-gray-600">
+          <div className="flex gap-3">
+            <span>R² = {formatStatistic(result.rSquared)}</span>
+            <span>RMSE = {formatStatistic(result.rmse)}</span>
+          </div>
+          {Object.entries(result.parameters).map(([name, value]) => (
+            <div key={name}>
+              {name} = {formatCoordinate(value)} ± {formatStatistic(result.uncertainties[name])}
+            </div>
+          ))}
+          {!result.converged && (
+            <div className="text-amber-700">Stopped after {result.iterations} iterations without converging</div>
+          )}
+          <label className="flex items-center gap-2 pt-1 font-sans text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={fit.residualsId !== null} onChange={onToggleResiduals} className="accent-blue-600" />
+            Residual plot
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const FitPanel = React.memo(FitPanelComponent);
+FitPanel.displayName = 'FitPanel';
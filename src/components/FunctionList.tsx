@@ -1,13 +1,55 @@
-import { Trash2, Eye, EyeOff, Plus, LayoutTemplate, X, Code, Upload, GitBranch } from 'lucide-react';
+import { Trash2, Eye, EyeOff, Plus, LayoutTemplate, X, Code, Upload, GitBranch, AreaChart, ScatterChart, LineChart, TrendingUp, Sigma, MoveUpRight, Link2, Unlink, Ruler } from 'lucide-react';
 import { cn } from '../lib/utils';
+import {
+  detectFunctionType,
+  parseGeometry,
+  parseGlider,
+  getParameterVariable,
+  splitParameterRange,
+  setParameterRange,
+  formatCoordinate,
+  DEFAULT_PARAMETER_RANGES,
+  FunctionData,
+  ExpressionDiagnostic
+} from '../lib/mathUtils';
+import { FitPanel } from './FitPanel';
+import { SymbolicPanel } from './SymbolicPanel';
+import { FitSpec, SeriesFit } from '../lib/regression';
+import { DerivedLink, DerivationKind, DERIVATION_LABELS, getAvailableDerivations } from '../lib/derivedFunctions';
+import { FunctionTransform } from '../lib/symbolic';
 import { useState, useRef } from 'react';
 import React from 'react';
 
+export interface FunctionArea {
+  // Bounds may reference parameters.
+  from: string;
+  to: string;
+  // Id of another explicit function to shade against instead of the x-axis.
+  against?: string;
+}
+
+export type DataSeriesStyle = 'scatter' | 'line';
+
+export interface DataSeries {
+  name: string;
+  style: DataSeriesStyle;
+  points: { x: number; y: number }[];
+}
+
 export interface FunctionItem {
   id: string;
   expr: string;
   color: string;
   visible: boolean;
+  area?: FunctionArea;
+  // Imported data; such items keep an empty expr so expression handling passes over them.
+  series?: DataSeries;
+  // Draws velocity vectors along a parametric or polar curve.
+  velocity?: boolean;
+  // Set on items computed from another item; expr is then kept in sync with the source.
+  derived?: DerivedLink;
+  // Shows side lengths, angles and area of a polygon, or distances from a point.
+  measure?: boolean;
 }
 
 interface FunctionListProps {
@@ -15,10 +57,23 @@ interface FunctionListProps {
   onAddFunction: (expr?: string) => void;
   onUpdateFunction: (id: string, updates: Partial<FunctionItem>) => void;
   onRemoveFunction: (id: string) => void;
-  onUploadData?: (data: string) => void;
-  onDifferentiate?: (id: string) => void;
+  onUploadData?: (data: string, fileName: string) => void;
+  onDerive?: (id: string, kind: DerivationKind) => void;
+  functionDataMap?: Record<string, FunctionData>;
+  diagnostics?: Record<string, ExpressionDiagnostic>;
+  fits?: Record<string, SeriesFit>;
+  onFit?: (seriesId: string, spec: FitSpec) => void;
+  onToggleResiduals?: (seriesId: string) => void;
+  onApplySymbolic?: (id: string, expr: string, mode: 'add' | 'replace') => void;
 }
 
+const TRANSFORM_FIELDS: { key: keyof FunctionTransform; label: string; title: string }[] = [
+  { key: 'dx', label: 'Δx', title: 'Shift right' },
+  { key: 'dy', label: 'Δy', title: 'Shift up' },
+  { key: 'sx', label: '×x', title: 'Stretch horizontally' },
+  { key: 'sy', label: '×y', title: 'Stretch vertically' }
+];
+
 const COLORS = [
   '#ef4444', // red-500
   '#3b82f6', // blue-500
@@ -44,9 +99,14 @@ const TEMPLATES = [
   { name: 'Square Wave', expr: 'sign(sin(x))', category: 'Advanced' },
   { name: 'Gaussian', expr: 'e^(-x^2)', category: 'Advanced' },
   { name: 'Point', expr: '(2, 3)', category: 'Geometry' },
-  { name: 'Line Segment', expr: '(-2, -2), (2, 2)', category: 'Geometry' },
-  { name: 'Triangle', expr: '(0, 0), (2, 0), (1, 2)', category: 'Geometry' },
-  { name: 'Square', expr: '(0, 0), (2, 0), (2, 2), (0, 2)', category: 'Geometry' },
+  { name: 'Line Segment', expr: 'segment((-2, -2), (2, 2))', category: 'Geometry' },
+  { name: 'Polyline', expr: 'polyline((-3, 0), (-1, 2), (1, -1), (3, 1))', category: 'Geometry' },
+  { name: 'Triangle', expr: 'polygon((0, 0), (2, 0), (1, 2))', category: 'Geometry' },
+  { name: 'Square', expr: 'polygon((0, 0), (2, 0), (2, 2), (0, 2))', category: 'Geometry' },
+  { name: 'Circle', expr: 'circle((0, 0), 2)', category: 'Geometry' },
+  { name: 'Ray', expr: 'ray((0, 0), (2, 1))', category: 'Geometry' },
+  { name: 'Line', expr: 'line((-1, -1), (1, 2))', category: 'Geometry' },
+  { name: 'Vector', expr: 'vector((0, 0), (2, 3))', category: 'Geometry' },
   // Machine Learning
   { name: 'Sigmoid', expr: '1 / (1 + e^-x)', category: 'Machine Learning' },
   { name: 'ReLU', expr: 'max(0, x)', category: 'Machine Learning' },
@@ -68,9 +128,17 @@ const TEMPLATES = [
   // Advanced Types
   { name: 'Circle (Implicit)', expr: 'x^2 + y^2 = 9', category: 'Advanced' },
   { name: 'Heart (Implicit)', expr: '(x^2 + y^2 - 1)^3 - x^2 * y^3 = 0', category: 'Advanced' },
-  { name: 'Parametric Circle', expr: '(cos(t), sin(t))', category: 'Advanced' },
+  { name: 'Parametric Circle', expr: '(cos(t), sin(t)) {0 <= t <= 2pi}', category: 'Advanced' },
+  { name: 'Archimedean Spiral (Polar)', expr: 'r = theta / 4 {0 <= theta <= 8pi}', category: 'Advanced' },
   { name: 'Butterfly (Polar)', expr: 'r = e^sin(theta) - 2*cos(4*theta) + sin((2*theta - pi)/24)^5', category: 'Advanced' },
   { name: 'Piecewise Syntax', expr: '{x < 0: x^2, x >= 0: x}', category: 'Piecewise' },
+  // Inequalities
+  { name: 'Above Parabola', expr: 'y > x^2', category: 'Inequality' },
+  { name: 'Disk', expr: 'x^2 + y^2 <= 9', category: 'Inequality' },
+  { name: 'Constraint System', expr: '{x > 0, y < sin(x)}', category: 'Inequality' },
+  // Integrals
+  { name: 'Area Under Sine', expr: 'integral(sin(x), 0, pi)', category: 'Integral' },
+  { name: 'Area Between Curves', expr: 'integral(x, x^2, 0, 1)', category: 'Integral' },
 ];
 
 function FunctionListComponent({
@@ -79,9 +147,18 @@ function FunctionListComponent({
   onUpdateFunction,
   onRemoveFunction,
   onUploadData,
-  onDifferentiate,
+  onDerive,
+  functionDataMap = {},
+  diagnostics = {},
+  fits = {},
+  onFit,
+  onToggleResiduals,
+  onApplySymbolic,
 }: FunctionListProps) {
   const [showTemplates, setShowTemplates] = useState(false);
+  const [fitOpenIds, setFitOpenIds] = useState<string[]>([]);
+  const [symbolicOpenIds, setSymbolicOpenIds] = useState<string[]>([]);
+  const [deriveOpenIds, setDeriveOpenIds] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -92,7 +169,7 @@ function FunctionListComponent({
     reader.onload = (event) => {
       const content = event.target?.result as string;
       if (content && onUploadData) {
-        onUploadData(content);
+        onUploadData(content, file.name);
       }
     };
     reader.readAsText(file);
@@ -108,14 +185,14 @@ function FunctionListComponent({
             type="file"
             ref={fileInputRef}
             className="hidden"
-            accept=".csv,.txt"
+            accept=".csv,.tsv,.txt,.dat"
             onChange={handleFileUpload}
           />
           {onUploadData && (
             <button
               onClick={() => fileInputRef.current?.click()}
               className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors border border-gray-200"
-              title="Upload CSV Data"
+              title="Import data table"
             >
               <Upload className="w-4 h-4" />
             </button>
@@ -175,7 +252,124 @@ function FunctionListComponent({
       )}
 
       <div className="space-y-3">
-        {functions.map((func) => (
+        {functions.map((func) => {
+          if (func.series) {
+            const series = func.series;
+            const xMin = series.points.reduce((min, p) => Math.min(min, p.x), Infinity);
+            const xMax = series.points.reduce((max, p) => Math.max(max, p.x), -Infinity);
+            const fitOpen = fitOpenIds.includes(func.id);
+            return (
+              <div
+                key={func.id}
+                className="flex flex-col gap-2 p-3 bg-white border border-gray-200 rounded-lg shadow-sm group hover:border-gray-300 transition-all focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full cursor-pointer shrink-0 border border-gray-200 hover:scale-110 transition-transform"
+                      style={{ backgroundColor: func.color }}
+                      onClick={() => {
+                        const currentIndex = COLORS.indexOf(func.color);
+                        const nextColor = COLORS[(currentIndex + 1) % COLORS.length];
+                        onUpdateFunction(func.id, { color: nextColor });
+                      }}
+                      title="Click to change color"
+                    />
+                    <span className="text-xs font-medium text-gray-500 font-mono">data</span>
+                  </div>
+
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => onUpdateFunction(func.id, { visible: !func.visible })}
+                      className={cn(
+                        "p-1 rounded hover:bg-gray-100 transition-colors",
+                        func.visible ? "text-gray-400 hover:text-gray-600" : "text-gray-300"
+                      )}
+                      title={func.visible ? "Hide series" : "Show series"}
+                    >
+                      {func.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                      onClick={() => onUpdateFunction(func.id, {
+                        series: { ...series, style: series.style === 'scatter' ? 'line' : 'scatter' }
+                      })}
+                      className="p-1 text-gray-400 rounded hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                      title={series.style === 'scatter' ? "Draw as line" : "Draw as points"}
+                    >
+                      {series.style === 'scatter' ? <LineChart className="w-3.5 h-3.5" /> : <ScatterChart className="w-3.5 h-3.5" />}
+                    </button>
+                    {onFit && (
+                      <button
+                        onClick={() => setFitOpenIds((prev) => (
+                          prev.includes(func.id) ? prev.filter((id) => id !== func.id) : [...prev, func.id]
+                        ))}
+                        className={cn(
+                          "p-1 rounded transition-colors",
+                          fitOpen
+                            ? "text-blue-600 bg-blue-50 hover:bg-blue-100"
+                            : "text-gray-400 hover:text-blue-600 hover:bg-blue-50"
+                        )}
+                        title="Fit a model"
+                      >
+                        <TrendingUp className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onRemoveFunction(func.id)}
+                      className="p-1 text-gray-400 rounded hover:text-red-600 hover:bg-red-50 transition-colors"
+                      title="Remove series"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+
+                <input
+                  type="text"
+                  value={series.name}
+                  onChange={(e) => onUpdateFunction(func.id, { series: { ...series, name: e.target.value } })}
+                  className="w-full bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 text-sm text-gray-900 focus:outline-none focus:bg-white"
+                  title="Series name"
+                  spellCheck={false}
+                />
+                <div className="text-xs font-mono text-gray-500">
+                  {series.points.length} points
+                  {series.points.length > 0 && ` · x from ${formatCoordinate(xMin)} to ${formatCoordinate(xMax)}`}
+                </div>
+
+                {fitOpen && onFit && (
+                  <FitPanel
+                    fit={fits[func.id]}
+                    onFit={(spec) => onFit(func.id, spec)}
+                    onToggleResiduals={() => onToggleResiduals?.(func.id)}
+                  />
+                )}
+              </div>
+            );
+          }
+
+          const type = detectFunctionType(func.expr);
+          const rangeVariable = getParameterVariable(type);
+          const { range } = splitParameterRange(func.expr);
+          const rangeMin = range?.variable === rangeVariable ? range.min : '';
+          const rangeMax = range?.variable === rangeVariable ? range.max : '';
+          const integral = functionDataMap[func.id]?.integral;
+          const diagnostic = diagnostics[func.id];
+          const hasMarker = diagnostic?.start !== undefined && diagnostic.end !== undefined;
+          const area = type === 'explicit' ? func.area : undefined;
+          const areaCandidates = functions.filter((other) => (
+            other.id !== func.id && !other.series && detectFunctionType(other.expr) === 'explicit'
+          ));
+          const symbolicOpen = symbolicOpenIds.includes(func.id);
+          // A glider is a point too, so it can show its distances.
+          const geometryType = type === 'geometry' ? parseGeometry(func.expr)?.type ?? (parseGlider(func.expr) ? 'point' : undefined) : undefined;
+          const measurable = geometryType === 'polygon' || geometryType === 'point';
+          const deriveOpen = deriveOpenIds.includes(func.id);
+          const derivations = deriveOpen ? getAvailableDerivations(func.expr) : [];
+          const derived = func.derived;
+          const derivedSource = derived && functions.find((other) => other.id === derived.source);
+
+          return (
           <div
             key={func.id}
             className="flex flex-col gap-2 p-3 bg-white border border-gray-200 rounded-lg shadow-sm group hover:border-gray-300 transition-all focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500"
@@ -207,16 +401,85 @@ function FunctionListComponent({
                   {func.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
                 </button>
                 
-                {onDifferentiate && (
+                {type === 'explicit' && (
                   <button
-                    onClick={() => onDifferentiate(func.id)}
-                    className="p-1 text-gray-400 rounded hover:text-purple-600 hover:bg-purple-50 transition-colors"
-                    title="Calculate Derivative"
+                    onClick={() => onUpdateFunction(func.id, { area: func.area ? undefined : { from: '0', to: '1' } })}
+                    className={cn(
+                      "p-1 rounded transition-colors",
+                      func.area
+                        ? "text-blue-600 bg-blue-50 hover:bg-blue-100"
+                        : "text-gray-400 hover:text-blue-600 hover:bg-blue-50"
+                    )}
+                    title={func.area ? "Hide area" : "Shade area"}
+                  >
+                    <AreaChart className="w-3.5 h-3.5" />
+                  </button>
+                )}
+
+                {rangeVariable && (
+                  <button
+                    onClick={() => onUpdateFunction(func.id, { velocity: !func.velocity })}
+                    className={cn(
+                      "p-1 rounded transition-colors",
+                      func.velocity
+                        ? "text-blue-600 bg-blue-50 hover:bg-blue-100"
+                        : "text-gray-400 hover:text-blue-600 hover:bg-blue-50"
+                    )}
+                    title={func.velocity ? "Hide velocity vectors" : "Show velocity vectors"}
+                  >
+                    <MoveUpRight className="w-3.5 h-3.5" />
+                  </button>
+                )}
+
+                {measurable && (
+                  <button
+                    onClick={() => onUpdateFunction(func.id, { measure: !func.measure })}
+                    className={cn(
+                      "p-1 rounded transition-colors",
+                      func.measure
+                        ? "text-blue-600 bg-blue-50 hover:bg-blue-100"
+                        : "text-gray-400 hover:text-blue-600 hover:bg-blue-50"
+                    )}
+                    title={func.measure ? "Hide measurements" : "Show measurements"}
+                  >
+                    <Ruler className="w-3.5 h-3.5" />
+                  </button>
+                )}
+
+                {onDerive && (
+                  <button
+                    onClick={() => setDeriveOpenIds((prev) => (
+                      prev.includes(func.id) ? prev.filter((id) => id !== func.id) : [...prev, func.id]
+                    ))}
+                    className={cn(
+                      "p-1 rounded transition-colors",
+                      deriveOpen
+                        ? "text-purple-600 bg-purple-50 hover:bg-purple-100"
+                        : "text-gray-400 hover:text-purple-600 hover:bg-purple-50"
+                    )}
+                    title="Derive a linked function"
                   >
                     <GitBranch className="w-3.5 h-3.5" />
                   </button>
                 )}
 
+                {onApplySymbolic && (
+                  <button
+                    onClick={() => setSymbolicOpenIds((prev) => (
+                      prev.includes(func.id) ? prev.filter((id) => id !== func.id) : [...prev, func.id]
+                    ))}
+                    className={cn(
+                      "p-1 rounded transition-colors",
+                      symbolicOpen
+                        ? "text-purple-600 bg-purple-50 hover:bg-purple-100"
+                        : "text-gray-400 hover:text-purple-600 hover:bg-purple-50"
+                    )}
+                    title="Symbolic actions"
+                  >
+                    <Sigma className="w-3.5 h-3.5" />
+                  </button>
+                )}
+
                 <button
                   onClick={() => onRemoveFunction(func.id)}
                   className="p-1 text-gray-400 rounded hover:text-red-600 hover:bg-red-50 transition-colors"
@@ -227,21 +490,184 @@ function FunctionListComponent({
               </div>
             </div>
             
+            {derived && (
+              <div className="flex items-center gap-2 px-2 py-1 text-xs text-purple-700 bg-purple-50 border border-purple-100 rounded">
+                <Link2 className="w-3 h-3 shrink-0" />
+                <span className="flex-1 min-w-0 truncate" title={derivedSource?.expr}>
+                  {DERIVATION_LABELS[derived.kind]} of <span className="font-mono">{derivedSource?.expr.split('\n')[0]}</span>
+                </span>
+                <button
+                  onClick={() => onUpdateFunction(func.id, { derived: undefined })}
+                  className="flex items-center gap-1 font-medium shrink-0 hover:text-purple-900 transition-colors"
+                  title="Keep the current expression and stop following the source"
+                >
+                  <Unlink className="w-3 h-3" />
+                  Detach
+                </button>
+              </div>
+            )}
+
             <div className="relative">
               <textarea
                 value={func.expr}
+                readOnly={!!derived}
                 onChange={(e) => onUpdateFunction(func.id, { expr: e.target.value })}
                 placeholder="Enter expression..."
+                title={derived ? "Follows its source; detach to edit" : undefined}
                 rows={Math.max(2, func.expr.split('\n').length)}
-                className="w-full bg-gray-50 border border-gray-200 rounded-md p-2 text-sm font-mono text-gray-900 placeholder:text-gray-400 resize-none focus:outline-none focus:bg-white transition-colors leading-relaxed"
+                className={cn(
+                  "w-full bg-gray-50 border rounded-md p-2 text-sm font-mono text-gray-900 placeholder:text-gray-400 resize-none focus:outline-none focus:bg-white transition-colors leading-relaxed",
+                  diagnostic?.severity === 'error' ? "border-red-300" : "border-gray-200"
+                )}
                 spellCheck={false}
+                data-function-expression
               />
+              {/* Mirror of the text with the diagnostic range underlined, laid over the textarea */}
+              {hasMarker && (
+                <div
+                  aria-hidden
+                  className="absolute inset-0 p-2 border border-transparent text-sm font-mono leading-relaxed whitespace-pre-wrap break-words text-transparent pointer-events-none overflow-hidden"
+                >
+                  {func.expr.slice(0, diagnostic.start)}
+                  <span
+                    className={cn(
+                      "underline decoration-wavy underline-offset-4",
+                      diagnostic.severity === 'error' ? "decoration-red-500" : "decoration-amber-500"
+                    )}
+                  >
+                    {func.expr.slice(diagnostic.start, diagnostic.end)}
+                  </span>
+                  {func.expr.slice(diagnostic.end)}
+                </div>
+              )}
               <div className="absolute right-2 bottom-2 pointer-events-none">
                 <Code className="w-3 h-3 text-gray-300" />
               </div>
             </div>
+
+            {diagnostic && (
+              <div
+                className={cn(
+                  "text-xs rounded px-2 py-1 border",
+                  diagnostic.severity === 'error'
+                    ? "text-red-700 bg-red-50 border-red-100"
+                    : "text-amber-700 bg-amber-50 border-amber-100"
+                )}
+              >
+                <div className="font-medium">{diagnostic.message}</div>
+                {diagnostic.hint && <div className="opacity-80">{diagnostic.hint}</div>}
+              </div>
+            )}
+
+            {rangeVariable && (
+              <div className="flex items-center gap-2 text-xs font-mono text-gray-500">
+                <input
+                  type="text"
+                  value={rangeMin}
+                  placeholder={DEFAULT_PARAMETER_RANGES[rangeVariable].min}
+                  onChange={(e) => onUpdateFunction(func.id, { expr: setParameterRange(func.expr, rangeVariable, e.target.value, rangeMax) })}
+                  className="w-full min-w-0 px-2 py-1 bg-gray-50 border border-gray-200 rounded focus:outline-none focus:bg-white focus:border-blue-500"
+                  title={`Minimum ${rangeVariable} (accepts parameter expressions)`}
+                  spellCheck={false}
+                />
+                <span className="shrink-0">≤ {rangeVariable === 'theta' ? 'θ' : 't'} ≤</span>
+                <input
+                  type="text"
+                  value={rangeMax}
+                  placeholder={DEFAULT_PARAMETER_RANGES[rangeVariable].max}
+                  onChange={(e) => onUpdateFunction(func.id, { expr: setParameterRange(func.expr, rangeVariable, rangeMin, e.target.value) })}
+                  className="w-full min-w-0 px-2 py-1 bg-gray-50 border border-gray-200 rounded focus:outline-none focus:bg-white focus:border-blue-500"
+                  title={`Maximum ${rangeVariable} (accepts parameter expressions)`}
+                  spellCheck={false}
+                />
+              </div>
+            )}
+
+            {derived?.transform && (
+              <div className="grid grid-cols-4 gap-2 text-xs font-mono text-gray-500">
+                {TRANSFORM_FIELDS.map(({ key, label, title }) => (
+                  <label key={key} className="flex items-center gap-1 min-w-0" title={`${title} (accepts parameter expressions)`}>
+                    <span className="shrink-0">{label}</span>
+                    <input
+                      type="text"
+                      value={derived.transform![key]}
+                      onChange={(e) => onUpdateFunction(func.id, {
+                        derived: { ...derived, transform: { ...derived.transform!, [key]: e.target.value } }
+                      })}
+                      className="w-full min-w-0 px-2 py-1 bg-gray-50 border border-gray-200 rounded focus:outline-none focus:bg-white focus:border-blue-500"
+                      spellCheck={false}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {area && (
+              <div className="flex items-center gap-2 text-xs font-mono text-gray-500">
+                <span className="shrink-0">∫</span>
+                <input
+                  type="text"
+                  value={area.from}
+                  onChange={(e) => onUpdateFunction(func.id, { area: { ...area, from: e.target.value } })}
+                  className="w-full min-w-0 px-2 py-1 bg-gray-50 border border-gray-200 rounded focus:outline-none focus:bg-white focus:border-blue-500"
+                  title="Lower bound (accepts parameter expressions)"
+                  spellCheck={false}
+                />
+                <span className="shrink-0">to</span>
+                <input
+                  type="text"
+                  value={area.to}
+                  onChange={(e) => onUpdateFunction(func.id, { area: { ...area, to: e.target.value } })}
+                  className="w-full min-w-0 px-2 py-1 bg-gray-50 border border-gray-200 rounded focus:outline-none focus:bg-white focus:border-blue-500"
+                  title="Upper bound (accepts parameter expressions)"
+                  spellCheck={false}
+                />
+                <select
+                  value={area.against ?? ''}
+                  onChange={(e) => onUpdateFunction(func.id, { area: { ...area, against: e.target.value || undefined } })}
+                  className="min-w-0 max-w-[8rem] px-1 py-1 bg-gray-50 border border-gray-200 rounded focus:outline-none focus:bg-white focus:border-blue-500"
+                  title="Shade against"
+                >
+                  <option value="">x-axis</option>
+                  {areaCandidates.map((other) => (
+                    <option key={other.id} value={other.id}>{other.expr.split('\n')[0]}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {(area || type === 'integral') && (
+              <div className="text-xs font-mono text-gray-600">
+                ∫ = {integral && isFinite(integral.value) ? formatCoordinate(integral.value) : 'undefined'}
+              </div>
+            )}
+
+            {deriveOpen && onDerive && (
+              <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                {derivations.map((kind) => (
+                  <button
+                    key={kind}
+                    onClick={() => onDerive(func.id, kind)}
+                    className="px-2 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                  >
+                    {DERIVATION_LABELS[kind]}
+                  </button>
+                ))}
+                {derivations.length === 0 && (
+                  <span className="text-gray-500">Nothing to derive from this kind of expression.</span>
+                )}
+              </div>
+            )}
+
+            {symbolicOpen && onApplySymbolic && (
+              <SymbolicPanel
+                expr={func.expr}
+                onApply={(expr, mode) => onApplySymbolic(func.id, expr, mode)}
+              />
+            )}
           </div>
-        ))}
+          );
+        })}
 
         {functions.length === 0 && (
           <div className="text-center py-8 text-gray-500 text-sm bg-gray-50 rounded-lg border border-dashed border-gray-200">
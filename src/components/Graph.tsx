@@ -13,7 +13,7 @@ import {
   usePlotArea,
 } from 'recharts';
 import { FunctionItem } from './FunctionList';
-import { DataPoint, parseGeometry, formatGeometry, Geometry, getNiceTickData, formatTickValue, FunctionData, buildPolylinesFromSegments } from '../lib/mathUtils';
+import { DataPoint, parseGeometry, formatGeometry, Geometry, Glider, parseGlider, formatGlider, resolveGlider, projectGlider, getGeometryHandles, isGeometryHandleDraggable, moveGeometryHandle, measurePolygon, getNiceTickData, formatTickValue, FunctionData, PlotPoint, PointOfInterest, formatCoordinate, buildPolylinesFromSegments, IntegralData, parseIntegral, setIntegralBound, TangentInfo, getTangentInfo, evaluateExplicitAt, formatLineEquation, detectFunctionType, VelocityVector, getVelocityVectors } from '../lib/mathUtils';
 import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import React from 'react';
 
@@ -28,6 +28,11 @@ interface GraphProps {
   onUpdateYDomain: (domain: [number, number]) => void;
   gridDensity: number;
   aspectLocked: boolean;
+  showAsymptotes?: boolean;
+  pointsOfInterest?: PointOfInterest[];
+  parameters?: Record<string, number>;
+  onUpdateParameters?: (params: Record<string, number>) => void;
+  tangentMode?: boolean;
   onInteractionChange?: (isInteracting: boolean) => void;
 }
 
@@ -36,6 +41,77 @@ const Y_AXIS_WIDTH = 50;
 const X_AXIS_HEIGHT = 30;
 const MIN_DOMAIN_SPAN = 1e-6;
 const MAX_DOMAIN_SPAN = 1e6;
+const POINT_OF_INTEREST_COLOR = '#6b7280';
+const PARAMETER_SYMBOL_REGEX = /^[A-Za-z_]\w*$/;
+const VELOCITY_VECTOR_COUNT = 16;
+const ARROW_HEAD_SIZE = 6;
+const MEASUREMENT_LABEL_OFFSET = 14;
+
+// Round a dragged coordinate to about a thousandth of the visible span.
+function formatDraggedValue(value: number, span: number): string {
+  const decimals = Math.min(12, Math.max(0, Math.ceil(-Math.log10(Math.abs(span) / 1000))));
+  return Number(value.toFixed(decimals)).toString();
+}
+
+const POINT_OF_INTEREST_LABELS: Record<PointOfInterest['kind'], string> = {
+  root: 'Root',
+  minimum: 'Minimum',
+  maximum: 'Maximum',
+  intersection: 'Intersection'
+};
+
+function getPointOfInterestKey(poi: PointOfInterest): string {
+  return `${poi.kind}:${poi.functionIds.join('&')}:${poi.x}:${poi.y}`;
+}
+
+const PointOfInterestMarker = ({ cx, cy, poi, selected, onSelect }: any) => {
+  if (!isFinite(cx) || !isFinite(cy)) return null;
+
+  const coordinates = `(${formatCoordinate(poi.x)}, ${formatCoordinate(poi.y)})`;
+  const label = `${POINT_OF_INTEREST_LABELS[poi.kind as PointOfInterest['kind']]} ${coordinates}`;
+  const labelWidth = label.length * 6.6 + 56;
+
+  const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return (
+    <g>
+      <circle
+        cx={cx}
+        cy={cy}
+        r={selected ? 5 : 4}
+        fill={selected ? POINT_OF_INTEREST_COLOR : 'white'}
+        stroke={POINT_OF_INTEREST_COLOR}
+        strokeWidth={2}
+        className="cursor-pointer"
+        onMouseDown={stop}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSelect(selected ? null : getPointOfInterestKey(poi));
+        }}
+      />
+      {selected && (
+        <g transform={`translate(${cx + 10}, ${cy - 30})`} onMouseDown={stop}>
+          <rect width={labelWidth} height={22} rx={4} fill="white" stroke="#d1d5db" />
+          <text x={8} y={15} fontSize={11} fill="#374151" className="font-mono">{label}</text>
+          <text
+            x={labelWidth - 8}
+            y={15}
+            fontSize={11}
+            textAnchor="end"
+            fill="#2563eb"
+            className="cursor-pointer"
+            onClick={(e) => {
+              e.stopPropagation();
+              navigator.clipboard?.writeText(coordinates);
+            }}
+          >
+            Copy
+          </text>
+        </g>
+      )}
+    </g>
+  );
+};
 
 const TickLabel = ({ cx, cy, axisType, tickValue, tickStep }: any) => {
   if (Math.abs(tickValue) < 1e-10) return null;
@@ -71,29 +147,141 @@ const CustomFunctionLayer = React.memo(({ functions, functionDataMap }: { functi
   const getX = (x: number) => plotArea.x + ((x - (xDomain[0] as number)) / ((xDomain[1] as number) - (xDomain[0] as number))) * plotArea.width;
   const getY = (y: number) => plotArea.y + plotArea.height - ((y - (yDomain[0] as number)) / ((yDomain[1] as number) - (yDomain[0] as number))) * plotArea.height;
 
+  const toPolylinePath = (polylines: PlotPoint[][]) => polylines
+    .map((line) => {
+      let path = '';
+      for (let i = 0; i < line.length; i++) {
+        const x = getX(line[i].x);
+        const y = getY(line[i].y);
+        if (!isFinite(x) || !isFinite(y)) continue;
+        path += `${i === 0 ? 'M' : ' L'}${x},${y}`;
+      }
+      return path;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+  // Negative area is shaded lighter; the label sits just above the axis between the bounds.
+  const renderIntegral = (integral: IntegralData, color: string) => {
+    const labelX = getX((integral.from + integral.to) / 2);
+    const labelY = Math.min(plotArea.y + plotArea.height, Math.max(plotArea.y + 12, getY(0) - 6));
+
+    return (
+      <>
+        {integral.regions.map((region, index) => (
+          <path
+            key={index}
+            d={toPolylinePath([[...region.points, region.points[0]]])}
+            fill={color}
+            fillOpacity={region.sign > 0 ? 0.3 : 0.14}
+            stroke="none"
+          />
+        ))}
+        {isFinite(labelX) && (
+          <text x={labelX} y={labelY} textAnchor="middle" fontSize={11} fill="#374151" className="font-mono">
+            ∫ = {isFinite(integral.value) ? formatCoordinate(integral.value) : 'undefined'}
+          </text>
+        )}
+      </>
+    );
+  };
+
+  // Scatter points are zero-length segments with round caps, so a large series stays one path;
+  // points outside the plot are left out.
+  const toScatterPath = (points: PlotPoint[]) => {
+    let path = '';
+    for (const point of points) {
+      const x = getX(point.x);
+      const y = getY(point.y);
+      if (x < plotArea.x - 4 || x > plotArea.x + plotArea.width + 4) continue;
+      if (y < plotArea.y - 4 || y > plotArea.y + plotArea.height + 4) continue;
+      path += `M${x},${y} h0 `;
+    }
+    return path;
+  };
+
   return (
     <g>
       {functions.map((func) => {
         if (!func.visible) return null;
+
+        if (func.series) {
+          return func.series.style === 'scatter' ? (
+            <path
+              key={func.id}
+              d={toScatterPath(func.series.points)}
+              stroke={func.color}
+              strokeWidth={6}
+              strokeLinecap="round"
+              fill="none"
+            />
+          ) : (
+            <path
+              key={func.id}
+              d={toPolylinePath([func.series.points])}
+              stroke={func.color}
+              strokeWidth={2}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              fill="none"
+            />
+          );
+        }
+
         const funcData = functionDataMap[func.id];
         if (!funcData) return null;
 
-        if (funcData.type === 'implicit') {
-          const polylines = funcData.polylines ?? buildPolylinesFromSegments(funcData.segments);
-          const pathData = polylines
-            .map((line) => {
-              let path = '';
-              for (let i = 0; i < line.length; i++) {
-                const x = getX(line[i].x);
-                const y = getY(line[i].y);
-                if (!isFinite(x) || !isFinite(y)) continue;
-                path += `${i === 0 ? 'M' : ' L'}${x},${y}`;
-              }
-              return path;
+        if (funcData.integral) {
+          return (
+            <g key={func.id}>
+              {renderIntegral(funcData.integral, func.color)}
+              {funcData.type === 'integral' && (
+                <path
+                  d={toPolylinePath(funcData.polylines ?? [])}
+                  stroke={func.color}
+                  strokeWidth={2}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  fill="none"
+                />
+              )}
+            </g>
+          );
+        }
+
+        if (funcData.type === 'inequality') {
+          const regionPath = (funcData.region ?? [])
+            .map((rect) => {
+              const x0 = getX(rect.x);
+              const x1 = getX(rect.x + rect.width);
+              const y0 = getY(rect.y + rect.height);
+              const y1 = getY(rect.y);
+              if (!isFinite(x0) || !isFinite(x1) || !isFinite(y0) || !isFinite(y1)) return '';
+              return `M${x0},${y0} H${x1} V${y1} H${x0} Z`;
             })
             .filter(Boolean)
             .join(' ');
-          
+
+          return (
+            <g key={func.id}>
+              <path d={regionPath} fill={func.color} fillOpacity={0.18} stroke="none" />
+              {(funcData.boundaries ?? []).map((boundary, index) => (
+                <path
+                  key={index}
+                  d={toPolylinePath(boundary.polylines)}
+                  stroke={func.color}
+                  strokeWidth={2}
+                  strokeDasharray={boundary.strict ? '6 4' : undefined}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  fill="none"
+                />
+              ))}
+            </g>
+          );
+        } else if (funcData.type === 'implicit') {
+          const pathData = toPolylinePath(funcData.polylines ?? buildPolylinesFromSegments(funcData.segments));
+
           return (
             <path
               key={func.id}
@@ -133,6 +321,329 @@ const CustomFunctionLayer = React.memo(({ functions, functionDataMap }: { functi
   );
 });
 
+// Clip the infinite line through a point along a direction to the visible rectangle.
+// Part of the line point + s * direction inside the view, for s >= from (0 gives a ray).
+function clipLineToDomain(
+  point: PlotPoint,
+  direction: PlotPoint,
+  xDomain: [number, number],
+  yDomain: [number, number],
+  from: number = -Infinity
+): [PlotPoint, PlotPoint] | null {
+  let sMin = from;
+  let sMax = Infinity;
+
+  const clipAxis = (origin: number, delta: number, min: number, max: number) => {
+    if (Math.abs(delta) < 1e-300) return origin >= min && origin <= max;
+    const s1 = (min - origin) / delta;
+    const s2 = (max - origin) / delta;
+    sMin = Math.max(sMin, Math.min(s1, s2));
+    sMax = Math.min(sMax, Math.max(s1, s2));
+    return true;
+  };
+
+  if (!clipAxis(point.x, direction.x, xDomain[0], xDomain[1])) return null;
+  if (!clipAxis(point.y, direction.y, yDomain[0], yDomain[1])) return null;
+  if (!(sMax > sMin)) return null;
+
+  return [
+    { x: point.x + sMin * direction.x, y: point.y + sMin * direction.y },
+    { x: point.x + sMax * direction.x, y: point.y + sMax * direction.y }
+  ];
+}
+
+const TangentLayer = ({ tangent, secant, color }: { tangent: TangentInfo; secant: PlotPoint | null; color: string }) => {
+  const xDomain = useXAxisDomain();
+  const yDomain = useYAxisDomain();
+  const plotArea = usePlotArea();
+
+  if (!xDomain || !yDomain || !plotArea) return null;
+
+  const domainX = [Number(xDomain[0]), Number(xDomain[1])] as [number, number];
+  const domainY = [Number(yDomain[0]), Number(yDomain[1])] as [number, number];
+  const getX = (x: number) => plotArea.x + ((x - domainX[0]) / (domainX[1] - domainX[0])) * plotArea.width;
+  const getY = (y: number) => plotArea.y + plotArea.height - ((y - domainY[0]) / (domainY[1] - domainY[0])) * plotArea.height;
+
+  const renderLine = (direction: PlotPoint, props: React.SVGProps<SVGLineElement>) => {
+    const ends = clipLineToDomain(tangent, direction, domainX, domainY);
+    if (!ends) return null;
+    return <line x1={getX(ends[0].x)} y1={getY(ends[0].y)} x2={getX(ends[1].x)} y2={getY(ends[1].y)} {...props} />;
+  };
+
+  return (
+    <g pointerEvents="none">
+      {renderLine({ x: 1, y: tangent.slope }, { stroke: color, strokeWidth: 1.5 })}
+      {renderLine({ x: -tangent.slope, y: 1 }, { stroke: color, strokeWidth: 1.5, strokeDasharray: '6 4', strokeOpacity: 0.7 })}
+      {secant && renderLine(
+        { x: secant.x - tangent.x, y: secant.y - tangent.y },
+        { stroke: '#6b7280', strokeWidth: 1.5, strokeDasharray: '2 4' }
+      )}
+    </g>
+  );
+};
+
+// Shaft and open head of an arrow between two screen points.
+function getArrowPath(x1: number, y1: number, x2: number, y2: number): string {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const length = Math.hypot(dx, dy);
+  if (length < 1e-3) return '';
+  const head = Math.min(ARROW_HEAD_SIZE, length / 2);
+  const ux = dx / length;
+  const uy = dy / length;
+  return `M${x1},${y1} L${x2},${y2}`
+    + ` M${x2 - head * (ux + uy / 2)},${y2 - head * (uy - ux / 2)} L${x2},${y2}`
+    + ` L${x2 - head * (ux - uy / 2)},${y2 - head * (uy + ux / 2)}`;
+}
+
+// Arrows are scaled per curve so the fastest one spans an eighth of the plot, keeping slow
+// and fast curves readable alike; their relative lengths along one curve are true.
+const VelocityLayer = ({ curves }: { curves: { id: string; color: string; vectors: VelocityVector[] }[] }) => {
+  const xDomain = useXAxisDomain();
+  const yDomain = useYAxisDomain();
+  const plotArea = usePlotArea();
+
+  if (!xDomain || !yDomain || !plotArea) return null;
+
+  const domainX = [Number(xDomain[0]), Number(xDomain[1])] as [number, number];
+  const domainY = [Number(yDomain[0]), Number(yDomain[1])] as [number, number];
+  const scaleX = plotArea.width / (domainX[1] - domainX[0]);
+  const scaleY = plotArea.height / (domainY[1] - domainY[0]);
+  const getX = (x: number) => plotArea.x + (x - domainX[0]) * scaleX;
+  const getY = (y: number) => plotArea.y + plotArea.height - (y - domainY[0]) * scaleY;
+  const maxLength = Math.min(plotArea.width, plotArea.height) / 8;
+
+  return (
+    <g pointerEvents="none">
+      {curves.map(({ id, color, vectors }) => {
+        let longest = 0;
+        vectors.forEach((v) => {
+          longest = Math.max(longest, Math.hypot(v.dx * scaleX, v.dy * scaleY));
+        });
+        if (!(longest > 0) || !isFinite(longest)) return null;
+
+        const path = vectors.map((v) => {
+          const x1 = getX(v.x);
+          const y1 = getY(v.y);
+          return getArrowPath(
+            x1,
+            y1,
+            x1 + (v.dx * scaleX * maxLength) / longest,
+            y1 - (v.dy * scaleY * maxLength) / longest
+          );
+        }).join(' ');
+
+        return <path key={id} d={path} fill="none" stroke={color} strokeWidth={1.5} strokeLinecap="round" strokeLinejoin="round" />;
+      })}
+    </g>
+  );
+};
+
+// Gliders are drawn as points at their place on the curve.
+type GeometryItem = FunctionItem & { geometry: Geometry; glider?: Glider };
+
+const GeometryLayer = ({ items, onHandleMouseDown }: {
+  items: GeometryItem[];
+  onHandleMouseDown: (id: string, handleIndex: number) => void;
+}) => {
+  const xDomain = useXAxisDomain();
+  const yDomain = useYAxisDomain();
+  const plotArea = usePlotArea();
+
+  if (!xDomain || !yDomain || !plotArea) return null;
+
+  const domainX = [Number(xDomain[0]), Number(xDomain[1])] as [number, number];
+  const domainY = [Number(yDomain[0]), Number(yDomain[1])] as [number, number];
+  const scaleX = plotArea.width / (domainX[1] - domainX[0]);
+  const scaleY = plotArea.height / (domainY[1] - domainY[0]);
+  const getX = (x: number) => plotArea.x + (x - domainX[0]) * scaleX;
+  const getY = (y: number) => plotArea.y + plotArea.height - (y - domainY[0]) * scaleY;
+
+  const toPath = (points: PlotPoint[], closed: boolean) => points
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${getX(p.x)},${getY(p.y)}`)
+    .join(' ') + (closed ? ' Z' : '');
+
+  // Lines and rays run through both points to the edge of the view.
+  const toLinePath = ([a, b]: PlotPoint[], from: number) => {
+    const ends = clipLineToDomain(a, { x: b.x - a.x, y: b.y - a.y }, domainX, domainY, from);
+    return ends ? toPath(ends, false) : '';
+  };
+
+  const renderShape = ({ geometry, color }: GeometryItem) => {
+    const { type, points } = geometry;
+    const stroke = { fill: 'none', stroke: color, strokeWidth: 2, strokeLinejoin: 'round' as const };
+    if (type === 'circle') {
+      const radius = geometry.radius ?? 0;
+      return <ellipse cx={getX(points[0].x)} cy={getY(points[0].y)} rx={radius * scaleX} ry={radius * scaleY} {...stroke} />;
+    }
+    if (type === 'vector') {
+      const [a, b] = points;
+      return <path d={getArrowPath(getX(a.x), getY(a.y), getX(b.x), getY(b.y))} strokeLinecap="round" {...stroke} />;
+    }
+    if (type === 'line' || type === 'ray') {
+      return <path d={toLinePath(points, type === 'ray' ? 0 : -Infinity)} {...stroke} />;
+    }
+    if (type === 'point') return null;
+    return <path d={toPath(points, type === 'polygon')} {...stroke} />;
+  };
+
+  return (
+    <g>
+      {items.map((item) => (
+        <g key={item.id}>
+          <g pointerEvents="none">{renderShape(item)}</g>
+          {getGeometryHandles(item.geometry).map((handle, index) => !isGeometryHandleDraggable(item.geometry, index) ? (
+            <circle
+              key={index}
+              cx={getX(handle.x)}
+              cy={getY(handle.y)}
+              r={3}
+              fill={item.color}
+              pointerEvents="none"
+            />
+          ) : (
+            <circle
+              key={index}
+              cx={getX(handle.x)}
+              cy={getY(handle.y)}
+              r={item.geometry.type === 'point' ? 6 : 5}
+              fill="white"
+              stroke={item.color}
+              strokeWidth={2}
+              className="cursor-move hover:fill-gray-100"
+              onMouseDown={(e: React.MouseEvent) => {
+                e.stopPropagation();
+                onHandleMouseDown(item.id, index);
+              }}
+            />
+          ))}
+        </g>
+      ))}
+    </g>
+  );
+};
+
+function formatMeasurement(value: number): string {
+  return Number(value.toPrecision(4)).toString();
+}
+
+// Side lengths, interior angles, area and perimeter at the centroid for polygons; distances to
+// the other points for points. Recomputed from the items, so they follow a drag as it happens.
+const MeasurementLayer = ({ items }: { items: GeometryItem[] }) => {
+  const xDomain = useXAxisDomain();
+  const yDomain = useYAxisDomain();
+  const plotArea = usePlotArea();
+
+  if (!xDomain || !yDomain || !plotArea) return null;
+
+  const domainX = [Number(xDomain[0]), Number(xDomain[1])] as [number, number];
+  const domainY = [Number(yDomain[0]), Number(yDomain[1])] as [number, number];
+  const getX = (x: number) => plotArea.x + ((x - domainX[0]) / (domainX[1] - domainX[0])) * plotArea.width;
+  const getY = (y: number) => plotArea.y + plotArea.height - ((y - domainY[0]) / (domainY[1] - domainY[0])) * plotArea.height;
+  const points = items.filter((item) => item.geometry.type === 'point');
+  const labelProps = {
+    fontSize: 11,
+    textAnchor: 'middle' as const,
+    dominantBaseline: 'central' as const,
+    stroke: 'white',
+    strokeWidth: 3,
+    paintOrder: 'stroke',
+    className: 'font-mono'
+  };
+
+  const renderPolygon = (item: GeometryItem) => {
+    const vertices = item.geometry.points.map((p) => ({ x: getX(p.x), y: getY(p.y) }));
+    const n = vertices.length;
+    const measured = measurePolygon(item.geometry.points);
+    // Screen y points down, which flips the orientation the outward normal is taken from.
+    const outward = measured.signedArea >= 0 ? -1 : 1;
+
+    return (
+      <g key={item.id}>
+        {vertices.map((a, i) => {
+          const b = vertices[(i + 1) % n];
+          const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+          const nx = ((b.y - a.y) / length) * outward;
+          const ny = (-(b.x - a.x) / length) * outward;
+          return (
+            <text
+              key={`side-${i}`}
+              x={(a.x + b.x) / 2 + nx * MEASUREMENT_LABEL_OFFSET}
+              y={(a.y + b.y) / 2 + ny * MEASUREMENT_LABEL_OFFSET}
+              fill={item.color}
+              {...labelProps}
+            >
+              {formatMeasurement(measured.sides[i])}
+            </text>
+          );
+        })}
+        {vertices.map((v, i) => {
+          const prev = vertices[(i + n - 1) % n];
+          const next = vertices[(i + 1) % n];
+          const ux = (prev.x - v.x) / (Math.hypot(prev.x - v.x, prev.y - v.y) || 1) + (next.x - v.x) / (Math.hypot(next.x - v.x, next.y - v.y) || 1);
+          const uy = (prev.y - v.y) / (Math.hypot(prev.x - v.x, prev.y - v.y) || 1) + (next.y - v.y) / (Math.hypot(next.x - v.x, next.y - v.y) || 1);
+          // The bisector points inside at convex vertices and outside at reflex ones.
+          const inside = measured.angles[i] > Math.PI ? -1 : 1;
+          const bisector = Math.hypot(ux, uy) || 1;
+          return (
+            <text
+              key={`angle-${i}`}
+              x={v.x + (ux / bisector) * inside * MEASUREMENT_LABEL_OFFSET * 1.5}
+              y={v.y + (uy / bisector) * inside * MEASUREMENT_LABEL_OFFSET * 1.5}
+              fill="#6b7280"
+              {...labelProps}
+            >
+              {formatMeasurement((measured.angles[i] * 180) / Math.PI)}°
+            </text>
+          );
+        })}
+        <circle cx={getX(measured.centroid.x)} cy={getY(measured.centroid.y)} r={3} fill={item.color} />
+        <text x={getX(measured.centroid.x)} y={getY(measured.centroid.y) + MEASUREMENT_LABEL_OFFSET} fill="#374151" {...labelProps}>
+          A = {formatMeasurement(measured.signedArea)}, P = {formatMeasurement(measured.perimeter)}
+        </text>
+      </g>
+    );
+  };
+
+  const renderDistances = (item: GeometryItem) => {
+    const from = item.geometry.points[0];
+    return (
+      <g key={item.id}>
+        {points.filter((other) => other.id !== item.id).map((other) => {
+          const to = other.geometry.points[0];
+          return (
+            <g key={other.id}>
+              <line
+                x1={getX(from.x)}
+                y1={getY(from.y)}
+                x2={getX(to.x)}
+                y2={getY(to.y)}
+                stroke={item.color}
+                strokeWidth={1}
+                strokeDasharray="4 4"
+                strokeOpacity={0.7}
+              />
+              <text x={getX((from.x + to.x) / 2)} y={getY((from.y + to.y) / 2)} fill={item.color} {...labelProps}>
+                {formatMeasurement(Math.hypot(to.x - from.x, to.y - from.y))}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+    );
+  };
+
+  return (
+    <g pointerEvents="none">
+      {items.filter((item) => item.measure).map((item) => (
+        item.geometry.type === 'polygon' ? renderPolygon(item)
+          : item.geometry.type === 'point' ? renderDistances(item)
+          : null
+      ))}
+    </g>
+  );
+};
+
 export function Graph({ 
   data, 
   functions, 
@@ -144,8 +655,18 @@ export function Graph({
   onUpdateYDomain,
   gridDensity,
   aspectLocked,
+  showAsymptotes = true,
+  pointsOfInterest = [],
+  parameters = {},
+  onUpdateParameters,
+  tangentMode = false,
   onInteractionChange
 }: GraphProps) {
+  const [selectedPointOfInterest, setSelectedPointOfInterest] = useState<string | null>(null);
+  const [draggingBound, setDraggingBound] = useState<{ id: string; bound: 'from' | 'to' } | null>(null);
+  const [tangentPoint, setTangentPoint] = useState<{ id: string; x: number; pinned: boolean } | null>(null);
+  const [secantX, setSecantX] = useState<number | null>(null);
+  const [draggingTangent, setDraggingTangent] = useState<'point' | 'secant' | null>(null);
   const [dragging, setDragging] = useState<{ id: string; pointIndex: number } | null>(null);
   const [panning, setPanning] = useState<{ startX: number; startY: number; startXDomain: [number, number]; startYDomain: [number, number] } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -390,8 +911,17 @@ export function Graph({
   // Separate functions into regular plots and geometry
   const geometryItems = functions
     .filter(f => f.visible)
-    .map(f => ({ ...f, geometry: parseGeometry(f.expr) }))
-    .filter((f): f is FunctionItem & { geometry: Geometry } => f.geometry !== null);
+    .map((f): GeometryItem | null => {
+      const geometry = parseGeometry(f.expr, parameters);
+      // Built from a slider or point that has no value yet, so there is nothing to draw.
+      if (geometry && (!Number.isFinite(geometry.radius ?? 0) || geometry.points.some((p) => !Number.isFinite(p.x) || !Number.isFinite(p.y)))) return null;
+      if (geometry) return { ...f, geometry };
+      const glider = parseGlider(f.expr);
+      const position = glider && resolveGlider(glider, functions, parameters);
+      if (!glider || !position) return null;
+      return { ...f, geometry: { type: 'point', points: [{ x: position.x, y: position.y }], name: glider.name }, glider };
+    })
+    .filter((f): f is GeometryItem => f !== null);
 
   const handlePointMouseDown = (id: string, pointIndex: number) => {
     setDragging({ id, pointIndex });
@@ -413,10 +943,137 @@ export function Graph({
     }
   };
 
+  // Mouse position in domain coordinates, clamped to the plot area.
+  const clientToDomain = (clientX: number, clientY: number): PlotPoint | null => {
+    if (!containerRef.current) return null;
+    const rect = containerRef.current.getBoundingClientRect();
+    const chartWidth = rect.width - MARGIN.left - MARGIN.right - Y_AXIS_WIDTH;
+    const chartHeight = rect.height - MARGIN.top - MARGIN.bottom - X_AXIS_HEIGHT;
+    if (chartWidth <= 0 || chartHeight <= 0) return null;
+
+    const clampedX = Math.max(0, Math.min(clientX - rect.left - (MARGIN.left + Y_AXIS_WIDTH), chartWidth));
+    const clampedY = Math.max(0, Math.min(clientY - rect.top - MARGIN.top, chartHeight));
+    return {
+      x: xDomain[0] + (clampedX / chartWidth) * (xDomain[1] - xDomain[0]),
+      y: yDomain[1] - (clampedY / chartHeight) * (yDomain[1] - yDomain[0])
+    };
+  };
+
+  const explicitFunctions = functions.filter((f) => (
+    f.visible && functionDataMap[f.id]?.type === 'explicit' && detectFunctionType(f.expr) === 'explicit'
+  ));
+
+  useEffect(() => {
+    if (tangentMode) return;
+    setTangentPoint(null);
+    setSecantX(null);
+  }, [tangentMode]);
+
+  // Follow the explicit curve closest to the cursor until the point is pinned by dragging it.
+  const handleTangentHover = (e: React.MouseEvent) => {
+    if (!tangentMode || tangentPoint?.pinned || draggingTangent || panning) return;
+    const mouse = clientToDomain(e.clientX, e.clientY);
+    if (!mouse) return;
+
+    let nearestId: string | null = null;
+    let nearestDistance = Infinity;
+    for (const f of explicitFunctions) {
+      const y = evaluateExplicitAt(f.expr, mouse.x, parameters);
+      if (y === null || Math.abs(y - mouse.y) >= nearestDistance) continue;
+      nearestId = f.id;
+      nearestDistance = Math.abs(y - mouse.y);
+    }
+
+    setTangentPoint(nearestId ? { id: nearestId, x: mouse.x, pinned: false } : null);
+  };
+
+  const handleTangentLeave = () => {
+    if (!tangentPoint?.pinned && !draggingTangent) setTangentPoint(null);
+  };
+
+  // Not memoized on the functions: a named function they call can change without them.
+  const velocityCurves = functions
+    .filter((f) => f.visible && f.velocity && !f.series)
+    .map((f) => ({ id: f.id, color: f.color, vectors: getVelocityVectors(f.expr, VELOCITY_VECTOR_COUNT, parameters) }))
+    .filter((curve) => curve.vectors.length > 0);
+
+  const tangentFunction = tangentMode && tangentPoint
+    ? explicitFunctions.find((f) => f.id === tangentPoint.id)
+    : undefined;
+  const tangent = tangentFunction && tangentPoint
+    ? getTangentInfo(tangentFunction.expr, tangentPoint.x, parameters)
+    : null;
+  const secantY = tangentFunction && secantX !== null
+    ? evaluateExplicitAt(tangentFunction.expr, secantX, parameters)
+    : null;
+  const secantPoint = secantX !== null && secantY !== null && secantX !== tangent?.x
+    ? { x: secantX, y: secantY }
+    : null;
+
+  const toggleSecant = () => {
+    if (secantX !== null || !tangent) {
+      setSecantX(null);
+      return;
+    }
+    setSecantX(tangent.x + (xDomain[1] - xDomain[0]) / 10);
+  };
+
+  // A bound that is a bare parameter drives the slider, anything else is replaced by the number.
+  const updateIntegralBound = (id: string, bound: 'from' | 'to', x: number) => {
+    const func = functions.find((f) => f.id === id);
+    if (!func) return;
+
+    const spec = parseIntegral(func.expr);
+    const current = (spec ?? func.area)?.[bound]?.trim();
+    if (current === undefined) return;
+
+    if (PARAMETER_SYMBOL_REGEX.test(current) && parameters[current] !== undefined && onUpdateParameters) {
+      onUpdateParameters({ ...parameters, [current]: x });
+      return;
+    }
+
+    const value = formatDraggedValue(x, xDomain[1] - xDomain[0]);
+    if (spec) {
+      onUpdateFunction(id, { expr: setIntegralBound(func.expr, bound, value) });
+    } else if (func.area) {
+      onUpdateFunction(id, { area: { ...func.area, [bound]: value } });
+    }
+  };
+
+  // Like integral bounds: a glider placed by a bare parameter drives the slider, otherwise the
+  // new place is written back, as a point on implicit curves, which have no parameter.
+  const moveGlider = (id: string, glider: Glider, to: PlotPoint) => {
+    const position = projectGlider(glider, functions, to, parameters);
+    if (!position) return;
+
+    const current = glider.at?.trim();
+    if (position.parameter !== null && current && PARAMETER_SYMBOL_REGEX.test(current) && parameters[current] !== undefined && onUpdateParameters) {
+      onUpdateParameters({ ...parameters, [current]: position.parameter });
+      return;
+    }
+
+    const span = xDomain[1] - xDomain[0];
+    const at = position.parameter !== null
+      ? formatDraggedValue(position.parameter, span)
+      : `(${formatDraggedValue(position.x, span)}, ${formatDraggedValue(position.y, span)})`;
+    onUpdateFunction(id, { expr: formatGlider(glider, at) });
+  };
+
   const handleMouseMove = (e: MouseEvent) => {
     if (!containerRef.current) return;
 
-    if (dragging) {
+    if (draggingTangent) {
+      const mouse = clientToDomain(e.clientX, e.clientY);
+      if (!mouse) return;
+      if (draggingTangent === 'secant') {
+        setSecantX(mouse.x);
+      } else {
+        setTangentPoint((prev) => prev ? { ...prev, x: mouse.x, pinned: true } : prev);
+      }
+    } else if (draggingBound) {
+      const mouse = clientToDomain(e.clientX, e.clientY);
+      if (mouse) updateIntegralBound(draggingBound.id, draggingBound.bound, mouse.x);
+    } else if (dragging) {
       const rect = containerRef.current.getBoundingClientRect();
       const chartWidth = rect.width - MARGIN.left - MARGIN.right - Y_AXIS_WIDTH;
       const chartHeight = rect.height - MARGIN.top - MARGIN.bottom - X_AXIS_HEIGHT;
@@ -441,12 +1098,11 @@ export function Graph({
 
       // Update the geometry
       const item = geometryItems.find(f => f.id === dragging.id);
-      if (item) {
-        const newPoints = [...item.geometry.points];
-        newPoints[dragging.pointIndex] = { x: newX, y: newY };
-        
-        const newExpr = formatGeometry({ ...item.geometry, points: newPoints });
-        onUpdateFunction(dragging.id, { expr: newExpr });
+      if (item?.glider) {
+        moveGlider(item.id, item.glider, { x: newX, y: newY });
+      } else if (item) {
+        const moved = moveGeometryHandle(item.geometry, dragging.pointIndex, { x: newX, y: newY });
+        onUpdateFunction(dragging.id, { expr: formatGeometry(moved) });
       }
     } else if (panning) {
       const rect = containerRef.current.getBoundingClientRect();
@@ -476,6 +1132,8 @@ export function Graph({
 
   const handleMouseUp = () => {
     setDragging(null);
+    setDraggingBound(null);
+    setDraggingTangent(null);
     if (panning) {
       interactionRefs.current.pan = false;
       syncInteractionState();
@@ -484,7 +1142,7 @@ export function Graph({
   };
 
   useEffect(() => {
-    if (dragging || panning) {
+    if (dragging || draggingBound || draggingTangent || panning) {
       window.addEventListener('mousemove', handleMouseMove);
       window.addEventListener('mouseup', handleMouseUp);
     }
@@ -492,14 +1150,56 @@ export function Graph({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [dragging, panning, xDomain, yDomain, geometryItems]); // Dependencies needed for calculation
+  }, [dragging, draggingBound, draggingTangent, panning, xDomain, yDomain, geometryItems, functions, parameters]); // Dependencies needed for calculation
 
   return (
     <div 
       ref={containerRef}
-      className={`w-full h-full min-h-[400px] bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden select-none ${panning ? 'cursor-grabbing' : 'cursor-default'}`}
+      className={`relative w-full h-full min-h-[400px] bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden select-none ${panning ? 'cursor-grabbing' : tangentMode ? 'cursor-crosshair' : 'cursor-default'}`}
       onMouseDown={handleContainerMouseDown}
+      onMouseMove={handleTangentHover}
+      onMouseLeave={handleTangentLeave}
     >
+      {tangent && tangentFunction && (
+        <div
+          className="absolute top-3 right-3 z-10 w-64 bg-white/95 backdrop-blur p-3 rounded-lg border border-gray-200 shadow-sm text-xs space-y-1"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center gap-2 min-w-0">
+              <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: tangentFunction.color }} />
+              <span className="font-mono text-gray-700 truncate">{tangentFunction.expr.split('\n')[0]}</span>
+            </div>
+            {tangentPoint?.pinned && (
+              <button
+                onClick={() => setTangentPoint((prev) => prev ? { ...prev, pinned: false } : prev)}
+                className="text-blue-600 hover:text-blue-700 shrink-0"
+                title="Follow the cursor again"
+              >
+                Release
+              </button>
+            )}
+          </div>
+          <div className="font-mono text-gray-600">
+            point ({formatCoordinate(tangent.x)}, {formatCoordinate(tangent.y)})
+          </div>
+          <div className="font-mono text-gray-600">slope {formatCoordinate(tangent.slope)}</div>
+          <div className="font-mono text-gray-900">tangent: {formatLineEquation(tangent, tangent.slope)}</div>
+          <div className="font-mono text-gray-500">
+            normal: {formatLineEquation(tangent, tangent.slope === 0 ? Infinity : -1 / tangent.slope)}
+          </div>
+          <label className="flex items-center gap-2 pt-1 text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={secantX !== null} onChange={toggleSecant} className="accent-blue-600" />
+            Secant
+          </label>
+          {secantPoint && (
+            <div className="font-mono text-gray-500">
+              secant: {formatLineEquation(tangent, (secantPoint.y - tangent.y) / (secantPoint.x - tangent.x))}
+            </div>
+          )}
+        </div>
+      )}
+
       <ResponsiveContainer width="100%" height="100%">
         <LineChart
           data={data}
@@ -583,86 +1283,140 @@ export function Graph({
             );
           })}
 
+          {/* Vertical asymptote guides and jump endpoints for explicit functions */}
+          {functions.map((func) => {
+            if (!func.visible) return null;
+            const discontinuities = functionDataMap[func.id]?.discontinuities;
+            if (!discontinuities || discontinuities.length === 0) return null;
+
+            return discontinuities.map((d, index) => {
+              if (d.kind === 'pole') {
+                if (!showAsymptotes) return null;
+                return (
+                  <ReferenceLine
+                    key={`${func.id}-pole-${index}`}
+                    x={d.x}
+                    stroke={func.color}
+                    strokeOpacity={0.6}
+                    strokeWidth={1}
+                    strokeDasharray="6 4"
+                  />
+                );
+              }
+
+              return (['left', 'right'] as const).map((side) => {
+                const y = side === 'left' ? d.left : d.right;
+                if (y === undefined || !isFinite(y)) return null;
+                return (
+                  <ReferenceDot
+                    key={`${func.id}-jump-${index}-${side}`}
+                    x={d.x}
+                    y={y}
+                    r={4}
+                    fill={d.filled === side ? func.color : 'white'}
+                    stroke={func.color}
+                    strokeWidth={2}
+                    isFront={true}
+                  />
+                );
+              });
+            });
+          })}
+
           {/* Render Parametric, Polar, and Implicit Functions via CustomFunctionLayer */}
           <CustomFunctionLayer functions={functions} functionDataMap={functionDataMap} />
 
-          {/* Render Geometry (Points and Polygons) */}
-          {geometryItems.map((item) => {
-            if (item.geometry?.type === 'point') {
-              const p = item.geometry.points[0];
+          {velocityCurves.length > 0 && <VelocityLayer curves={velocityCurves} />}
+
+          {/* Tangent, normal and secant lines for the tangent tool */}
+          {tangent && tangentFunction && (
+            <TangentLayer tangent={tangent} secant={secantPoint} color={tangentFunction.color} />
+          )}
+          {tangent && tangentFunction && [
+            { key: 'point', point: tangent as PlotPoint, color: tangentFunction.color },
+            ...(secantPoint ? [{ key: 'secant', point: secantPoint, color: '#6b7280' }] : [])
+          ].map(({ key, point, color }) => (
+            <ReferenceDot
+              key={`tangent-${key}`}
+              x={point.x}
+              y={point.y}
+              r={5}
+              fill={key === 'point' && tangentPoint?.pinned ? color : 'white'}
+              stroke={color}
+              strokeWidth={2}
+              isFront={true}
+              className="cursor-ew-resize"
+              onMouseDown={(e: any, event?: any) => {
+                if (e && typeof e.stopPropagation === 'function') {
+                  e.stopPropagation();
+                } else if (event && typeof event.stopPropagation === 'function') {
+                  event.stopPropagation();
+                }
+                if (key === 'point') {
+                  setTangentPoint((prev) => prev ? { ...prev, pinned: true } : prev);
+                }
+                setDraggingTangent(key as 'point' | 'secant');
+              }}
+            />
+          ))}
+
+          {/* Draggable integral bounds */}
+          {functions.map((func) => {
+            const integral = func.visible ? functionDataMap[func.id]?.integral : undefined;
+            if (!integral) return null;
+
+            return (['from', 'to'] as const).map((bound, index) => {
+              const handle = integral.handles[index];
+              if (!isFinite(handle.x) || !isFinite(handle.y)) return null;
               return (
                 <ReferenceDot
-                  key={item.id}
-                  x={p.x}
-                  y={p.y}
-                  r={6}
+                  key={`${func.id}-bound-${bound}`}
+                  x={handle.x}
+                  y={handle.y}
+                  r={5}
                   fill="white"
-                  stroke={item.color}
+                  stroke={func.color}
                   strokeWidth={2}
                   isFront={true}
-                  className="cursor-move hover:fill-gray-100"
+                  className="cursor-ew-resize hover:fill-gray-100"
                   onMouseDown={(e: any, event?: any) => {
                     if (e && typeof e.stopPropagation === 'function') {
                       e.stopPropagation();
                     } else if (event && typeof event.stopPropagation === 'function') {
                       event.stopPropagation();
                     }
-                    handlePointMouseDown(item.id, 0);
+                    setDraggingBound({ id: func.id, bound });
                   }}
                 />
               );
-            } else if (item.geometry?.type === 'polygon') {
-              // For polygons, we use a Line component with custom data
-              const points = [...item.geometry.points];
-              // Close the loop for rendering
-              if (points.length > 2) {
-                 const first = points[0];
-                 const last = points[points.length - 1];
-                 if (first.x !== last.x || first.y !== last.y) {
-                    points.push(first);
-                 }
-              }
+            });
+          })}
 
-              return (
-                <Line
-                  key={item.id}
-                  data={points}
-                  dataKey="y"
-                  type="linear"
-                  stroke={item.color}
-                  strokeWidth={2}
-                  isAnimationActive={false}
-                  activeDot={false}
-                  dot={(props: any) => {
-                    const { cx, cy, index } = props;
-                    // If it's the last point (duplicate of first), map it to index 0
-                    const realIndex = (index === points.length - 1 && points.length > item.geometry.points.length) ? 0 : index;
-                    
-                    return (
-                      <circle
-                        cx={cx}
-                        cy={cy}
-                        r={5}
-                        fill="white"
-                        stroke={item.color}
-                        strokeWidth={2}
-                        className="cursor-move hover:fill-gray-100"
-                        onMouseDown={(e: any, event?: any) => {
-                          if (e && typeof e.stopPropagation === 'function') {
-                            e.stopPropagation();
-                          } else if (event && typeof event.stopPropagation === 'function') {
-                            event.stopPropagation();
-                          }
-                          handlePointMouseDown(item.id, realIndex);
-                        }}
-                      />
-                    );
-                  }}
-                />
-              );
-            }
-            return null;
+          {/* Roots, extrema and intersections; click a marker for its exact coordinates */}
+          {pointsOfInterest.map((poi) => {
+            const key = getPointOfInterestKey(poi);
+            return (
+              <ReferenceDot
+                key={`poi-${key}`}
+                x={poi.x}
+                y={poi.y}
+                r={4}
+                isFront={true}
+                shape={(props: any) => (
+                  <PointOfInterestMarker
+                    {...props}
+                    poi={poi}
+                    selected={selectedPointOfInterest === key}
+                    onSelect={setSelectedPointOfInterest}
+                  />
+                )}
+              />
+            );
           })}
+
+          {/* Geometry shapes with their draggable handles */}
+          <MeasurementLayer items={geometryItems} />
+          <GeometryLayer items={geometryItems} onHandleMouseDown={handlePointMouseDown} />
         </LineChart>
       </ResponsiveContainer>
     </div>
@@ -0,0 +1,93 @@
+import { MathNode } from 'mathjs';
+import { ReactNode } from 'react';
+import React from 'react';
+
+interface MathViewProps {
+  node: MathNode;
+}
+
+const SYMBOL_GLYPHS: Record<string, string> = {
+  pi: 'π',
+  theta: 'θ',
+  phi: 'φ',
+  tau: 'τ',
+  Infinity: '∞'
+};
+
+const OPERATOR_GLYPHS: Record<string, string> = {
+  '-': '−',
+  '*': '·',
+  '<=': '≤',
+  '>=': '≥',
+  '!=': '≠',
+  '==': '='
+};
+
+// Binding strength, used to decide where a child needs parentheses.
+function getPrecedence(node: any): number {
+  if (node.isOperatorNode) {
+    if (node.args.length === 1) return 3;
+    if (node.op === '^') return 4;
+    if (node.op === '*' || node.op === '/') return 2;
+    if (node.op === '+' || node.op === '-') return 1;
+    return 0;
+  }
+  if (node.isConstantNode && typeof node.value === 'number' && node.value < 0) return 1;
+  return 5;
+}
+
+function wrap(content: ReactNode, parenthesize: boolean): ReactNode {
+  return parenthesize ? <>({content})</> : content;
+}
+
+function renderNode(node: any): ReactNode {
+  if (node.isParenthesisNode) return <>({renderNode(node.content)})</>;
+  if (node.isConstantNode) return String(node.value);
+  if (node.isSymbolNode) return <i>{SYMBOL_GLYPHS[node.name] ?? node.name}</i>;
+
+  if (node.isFunctionNode) {
+    const name = node.fn?.name ?? node.name;
+    const args = node.args.map((arg: any, i: number) => <React.Fragment key={i}>{i > 0 && ', '}{renderNode(arg)}</React.Fragment>);
+    if (name === 'sqrt') return <>√<span className="border-t border-current pt-px">{args}</span></>;
+    if (name === 'abs') return <>|{args}|</>;
+    return <>{name}({args})</>;
+  }
+
+  if (node.isOperatorNode) {
+    const precedence = getPrecedence(node);
+    // Parentheses are placed from precedence here, so the parsed ones are dropped.
+    const [a, b] = node.args.map((arg: any) => (arg.isParenthesisNode ? arg.content : arg));
+
+    if (node.args.length === 1) {
+      // A stacked fraction is already grouped.
+      const grouped = a.isOperatorNode && a.op === '/';
+      return <>{OPERATOR_GLYPHS[node.op] ?? node.op}{wrap(renderNode(a), !grouped && getPrecedence(a) < precedence)}</>;
+    }
+    if (node.op === '/') {
+      return (
+        <span className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.9em] leading-tight">
+          <span className="px-0.5">{renderNode(a)}</span>
+          <span className="px-0.5 border-t border-current">{renderNode(b)}</span>
+        </span>
+      );
+    }
+    if (node.op === '^') {
+      return <>{wrap(renderNode(a), getPrecedence(a) <= precedence)}<sup>{renderNode(b)}</sup></>;
+    }
+    const left = wrap(renderNode(a), getPrecedence(a) < precedence);
+    // Subtraction does not associate, so an equal-precedence right side keeps its parentheses.
+    const right = wrap(renderNode(b), getPrecedence(b) < precedence + (node.op === '-' ? 1 : 0));
+    if (node.op === '*' && node.implicit) return <>{left}{right}</>;
+    return <>{left} {OPERATOR_GLYPHS[node.op] ?? node.op} {right}</>;
+  }
+
+  return node.toString();
+}
+
+// Typeset rendering of a mathjs expression tree: fractions stacked, powers raised.
+function MathViewComponent({ node }: MathViewProps) {
+  return <span className="font-serif text-base text-gray-900">{renderNode(node)}</span>;
+}
+
+export const MathView = React.memo(MathViewComponent);
+MathView.displayName = 'MathView';
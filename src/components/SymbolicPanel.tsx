@@ -0,0 +1,125 @@
+import { cn } from '../lib/utils';
+import {
+  SymbolicOutcome,
+  SymbolicRequest,
+  SYMBOLIC_ACTIONS,
+  MAX_DERIVATIVE_ORDER,
+  applySymbolicAction,
+  getSymbolicActions,
+  getSymbolicVariables,
+  getCurveDerivatives
+} from '../lib/symbolic';
+import { MathView } from './MathView';
+import { CurveDerivativesPanel } from './CurveDerivativesPanel';
+import { useState, useMemo } from 'react';
+import React from 'react';
+
+interface SymbolicPanelProps {
+  expr: string;
+  onApply: (expr: string, mode: 'add' | 'replace') => void;
+}
+
+function SymbolicPanelComponent({ expr, onApply }: SymbolicPanelProps) {
+  const [request, setRequest] = useState<SymbolicRequest>({ action: 'simplify', order: 1, variable: 'x' });
+  const [outcome, setOutcome] = useState<SymbolicOutcome | null>(null);
+  const actions = useMemo(() => getSymbolicActions(expr), [expr]);
+  const variables = useMemo(() => getSymbolicVariables(expr), [expr]);
+  const curveDerivatives = useMemo(() => getCurveDerivatives(expr), [expr]);
+  const inputClass = "min-w-0 px-2 py-1 bg-gray-50 border border-gray-200 rounded focus:outline-none focus:bg-white focus:border-blue-500";
+
+  if (actions.length === 0 && !curveDerivatives) {
+    return <div className="text-xs text-gray-500">No symbolic actions for this kind of expression.</div>;
+  }
+
+  // Falls back when an edit to the expression takes the chosen action or variable away.
+  const action = actions.includes(request.action) ? request.action : actions[0];
+  const variable = variables.includes(request.variable) ? request.variable : variables[0] ?? 'x';
+  const result = outcome && 'result' in outcome ? outcome.result : null;
+
+  return (
+    <div className="space-y-2 text-xs">
+      {actions.length > 0 && (
+        <div className="flex items-center gap-2">
+          <select
+            value={action}
+            onChange={(e) => {
+              setRequest({ ...request, action: e.target.value as SymbolicRequest['action'] });
+              setOutcome(null);
+            }}
+            className={cn(inputClass, "flex-1")}
+          >
+            {SYMBOLIC_ACTIONS.filter((option) => actions.includes(option.value)).map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {action === 'derivative' && (
+            <input
+              type="number"
+              min={1}
+              max={MAX_DERIVATIVE_ORDER}
+              value={request.order}
+              onChange={(e) => setRequest({ ...request, order: Number(e.target.value) })}
+              className={cn(inputClass, "w-14")}
+              title="Order"
+            />
+          )}
+          {action === 'partial' && (
+            <select
+              value={variable}
+              onChange={(e) => setRequest({ ...request, variable: e.target.value })}
+              className={cn(inputClass, "w-16 font-mono")}
+              title="With respect to"
+            >
+              {variables.map((name) => (
+                <option key={name} value={name}>∂{name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => setOutcome(applySymbolicAction(expr, { ...request, action, variable }))}
+            className="px-3 py-1 font-medium text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+          >
+            Run
+          </button>
+        </div>
+      )}
+
+      {outcome && 'error' in outcome && <div className="text-red-600">{outcome.error}</div>}
+
+      {result && (
+        <div className="space-y-2">
+          <div className="px-2 py-2 overflow-x-auto bg-gray-50 border border-gray-100 rounded">
+            <MathView node={result.node} />
+          </div>
+          <div className="font-mono text-gray-600 break-all select-all">{result.expr}</div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onApply(result.expr, 'add')}
+              className="px-2 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+            >
+              Add as new
+            </button>
+            <button
+              onClick={() => {
+                onApply(result.replacement, 'replace');
+                setOutcome(null);
+              }}
+              className="px-2 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+            >
+              Replace
+            </button>
+          </div>
+        </div>
+      )}
+
+      {curveDerivatives && (
+        <div className={cn(actions.length > 0 && "pt-2 border-t border-gray-100")}>
+          <CurveDerivativesPanel derivatives={curveDerivatives} onAdd={(derived) => onApply(derived, 'add')} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const SymbolicPanel = React.memo(SymbolicPanelComponent);
+SymbolicPanel.displayName = 'SymbolicPanel';
@@ -0,0 +1,145 @@
+import { Play, Pause, SkipBack, StepBack, StepForward, Settings2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { TimePlayback, PLAYBACK_SPEEDS, PLAYBACK_FRAME_RATES } from '../lib/timePlayback';
+import { useState } from 'react';
+import React from 'react';
+
+interface TimeTransportProps {
+  timeSeconds: number;
+  playback: TimePlayback;
+  onUpdatePlayback: (playback: TimePlayback) => void;
+  onSeek: (time: number) => void;
+  onStep: (frames: number) => void;
+}
+
+function TimeTransportComponent({ timeSeconds, playback, onUpdatePlayback, onSeek, onStep }: TimeTransportProps) {
+  const [showSettings, setShowSettings] = useState(false);
+  const [start, end] = playback.range;
+  // Without a loop, time runs past the range and the scrubber grows to keep it reachable.
+  const scrubMin = playback.loop ? start : 0;
+  const scrubMax = playback.loop ? end : Math.max(end, timeSeconds);
+
+  const buttonClass = "p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors";
+  const inputClass = "px-1.5 py-0.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+
+  const updateRange = (range: [number, number]) => {
+    if (isFinite(range[0]) && isFinite(range[1]) && range[0] >= 0 && range[0] < range[1]) {
+      onUpdatePlayback({ ...playback, range });
+    }
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 w-96 max-w-[calc(100%-2rem)] bg-white/95 backdrop-blur px-2 py-1.5 rounded-lg border border-gray-200 shadow-sm text-xs text-gray-600">
+      <div className="flex items-center gap-1">
+        <button onClick={() => onSeek(scrubMin)} className={buttonClass} title="Rewind">
+          <SkipBack className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={() => onStep(-1)} className={buttonClass} title="Previous frame">
+          <StepBack className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => onUpdatePlayback({ ...playback, playing: !playback.playing })}
+          className={cn(buttonClass, playback.playing && "text-blue-600")}
+          title={playback.playing ? "Pause" : "Play"}
+        >
+          {playback.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => onStep(1)} className={buttonClass} title="Next frame">
+          <StepForward className="w-3.5 h-3.5" />
+        </button>
+        <input
+          type="range"
+          min={scrubMin}
+          max={scrubMax}
+          step="any"
+          value={Math.min(scrubMax, Math.max(scrubMin, timeSeconds))}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 min-w-0 h-2 mx-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          title="Scrub time"
+        />
+        <span className="w-16 text-right font-mono text-gray-500">t = {timeSeconds.toFixed(2)}</span>
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className={cn(buttonClass, showSettings && "text-blue-600 bg-blue-50")}
+          title="Playback settings"
+        >
+          <Settings2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-1 pt-2 mt-1.5 border-t border-gray-100">
+          <label className="flex items-center gap-1.5">
+            Speed
+            <select
+              value={playback.speed}
+              onChange={(e) => onUpdatePlayback({ ...playback, speed: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {PLAYBACK_SPEEDS.map((speed) => (
+                <option key={speed} value={speed}>{speed}×</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-center gap-1.5">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={playback.loop}
+                onChange={(e) => onUpdatePlayback({ ...playback, loop: e.target.checked })}
+                className="accent-blue-600"
+              />
+              Loop
+            </label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={start}
+              onChange={(e) => updateRange([Number(e.target.value), end])}
+              className={cn(inputClass, "w-14")}
+              title="Loop start (s)"
+            />
+            <span className="text-gray-400">to</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={end}
+              onChange={(e) => updateRange([start, Number(e.target.value)])}
+              className={cn(inputClass, "w-14")}
+              title="Loop end (s)"
+            />
+          </div>
+          <div className="flex items-center gap-1.5">
+            <label
+              className="flex items-center gap-1.5 cursor-pointer"
+              title="Advance by exactly one frame per step, independent of the display rate"
+            >
+              <input
+                type="checkbox"
+                checked={playback.fixedStep}
+                onChange={(e) => onUpdatePlayback({ ...playback, fixedStep: e.target.checked })}
+                className="accent-blue-600"
+              />
+              Fixed timestep
+            </label>
+            <select
+              value={playback.frameRate}
+              onChange={(e) => onUpdatePlayback({ ...playback, frameRate: Number(e.target.value) })}
+              className={inputClass}
+              title="Frames per second"
+            >
+              {PLAYBACK_FRAME_RATES.map((rate) => (
+                <option key={rate} value={rate}>{rate} fps</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const TimeTransport = React.memo(TimeTransportComponent);
+TimeTransport.displayName = 'TimeTransport';
@@ -0,0 +1,141 @@
+import { ChevronDown, Copy, Download, FolderOpen, Plus, Trash2, Upload } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { Workspace } from '../lib/workspaces';
+import { useState, useRef } from 'react';
+import React from 'react';
+
+interface WorkspaceMenuProps {
+  workspaces: Workspace[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onRename: (name: string) => void;
+  onExport: () => void;
+  // Returns false when the file is not a workspace this version can read.
+  onImport: (content: string) => boolean;
+}
+
+function WorkspaceMenuComponent({
+  workspaces,
+  activeId,
+  onSwitch,
+  onCreate,
+  onDuplicate,
+  onDelete,
+  onRename,
+  onExport,
+  onImport,
+}: WorkspaceMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const active = workspaces.find((w) => w.id === activeId) ?? workspaces[0];
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const content = event.target?.result as string;
+      if (content && onImport(content)) {
+        setImportError(null);
+        setIsOpen(false);
+      } else {
+        setImportError(`${file.name} is not a graph workspace file`);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const actionClass = "flex items-center gap-2 w-full px-3 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+        title="Switch workspace"
+      >
+        <FolderOpen className="w-4 h-4" />
+        <span className="max-w-[12rem] truncate">{active?.name}</span>
+        <ChevronDown className="w-3.5 h-3.5 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-30 space-y-3">
+          <input
+            type="text"
+            value={active?.name ?? ''}
+            onChange={(e) => onRename(e.target.value)}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            title="Rename workspace"
+          />
+
+          <div className="max-h-48 overflow-y-auto space-y-0.5">
+            {workspaces.map((workspace) => (
+              <button
+                key={workspace.id}
+                onClick={() => {
+                  onSwitch(workspace.id);
+                  setIsOpen(false);
+                }}
+                className={cn(
+                  "flex items-center justify-between w-full px-3 py-1.5 text-sm rounded transition-colors",
+                  workspace.id === activeId ? "bg-blue-50 text-blue-700" : "text-gray-700 hover:bg-gray-100"
+                )}
+              >
+                <span className="truncate">{workspace.name || 'Untitled'}</span>
+                <span className="text-xs text-gray-400 shrink-0 ml-2">
+                  {new Date(workspace.updatedAt).toLocaleDateString()}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-gray-100 pt-2 grid grid-cols-2 gap-1">
+            <button onClick={() => { onCreate(); setIsOpen(false); }} className={actionClass}>
+              <Plus className="w-4 h-4" /> New
+            </button>
+            <button onClick={() => { onDuplicate(); setIsOpen(false); }} className={actionClass}>
+              <Copy className="w-4 h-4" /> Duplicate
+            </button>
+            <button onClick={onExport} className={actionClass}>
+              <Download className="w-4 h-4" /> Export
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={actionClass}>
+              <Upload className="w-4 h-4" /> Import
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(`Delete "${active?.name}"? This cannot be undone.`)) {
+                  onDelete();
+                  setIsOpen(false);
+                }
+              }}
+              className={cn(actionClass, "text-red-600 hover:bg-red-50 col-span-2")}
+            >
+              <Trash2 className="w-4 h-4" /> Delete workspace
+            </button>
+          </div>
+
+          {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+          <input
+            type="file"
+            ref={fileInputRef}
+            className="hidden"
+            accept=".json,application/json"
+            onChange={handleFileImport}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const WorkspaceMenu = React.memo(WorkspaceMenuComponent);
+WorkspaceMenu.displayName = 'WorkspaceMenu';
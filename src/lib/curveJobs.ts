@@ -0,0 +1,100 @@
+import {
+  generateFunctionData,
+  generateExplicitSeries,
+  findPointsOfInterest,
+  FunctionData,
+  ExplicitSeries,
+  AdaptiveSamplingOptions,
+  PointOfInterest,
+  PlotPoint,
+  FunctionDefinitions,
+  NamedGeometry
+} from './mathUtils';
+import { fitModel, FitModel, FitResult } from './regression';
+import { collectCurveSamples, CurveSamples, DataExportOptions } from './dataExport';
+
+export type CurveJobRequest =
+  | {
+      kind: 'functionData';
+      func: { id: string; expr: string; visible: boolean };
+      xDomain: [number, number];
+      yDomain: [number, number];
+      parameters: Record<string, number>;
+    }
+  | {
+      kind: 'explicitSeries';
+      functions: { id: string; expr: string; color: string; visible: boolean }[];
+      xDomain: [number, number];
+      pointCount: number;
+      parameters: Record<string, number>;
+      options: AdaptiveSamplingOptions;
+    }
+  | {
+      kind: 'pointsOfInterest';
+      functions: { id: string; expr: string; visible: boolean }[];
+      xDomain: [number, number];
+      yDomain: [number, number];
+      parameters: Record<string, number>;
+    }
+  | {
+      kind: 'fit';
+      model: FitModel;
+      points: PlotPoint[];
+      parameters: Record<string, number>;
+    }
+  | {
+      kind: 'dataExport';
+      functions: { id: string; expr: string; visible: boolean }[];
+      options: Omit<DataExportOptions, 'format'>;
+      yDomain: [number, number];
+      parameters: Record<string, number>;
+    };
+
+export type CurveJobResult<R extends CurveJobRequest> =
+  R extends { kind: 'functionData' } ? FunctionData | null
+    : R extends { kind: 'pointsOfInterest' } ? PointOfInterest[]
+    : R extends { kind: 'fit' } ? FitResult | null
+    : R extends { kind: 'dataExport' } ? CurveSamples
+    : ExplicitSeries;
+
+export type CurveJobOutput = FunctionData | ExplicitSeries | PointOfInterest[] | FitResult | CurveSamples | null;
+
+export interface CurveWorkerMessage {
+  jobId: number;
+  request: CurveJobRequest;
+  definitions: FunctionDefinitions;
+  geometry: NamedGeometry;
+}
+
+export interface CurveWorkerReply {
+  jobId: number;
+  result?: CurveJobOutput;
+  error?: string;
+}
+
+export function runCurveJob(request: CurveJobRequest): CurveJobOutput {
+  if (request.kind === 'functionData') {
+    return generateFunctionData(request.func, request.xDomain, request.yDomain, request.parameters);
+  }
+
+  if (request.kind === 'pointsOfInterest') {
+    return findPointsOfInterest(request.functions, request.xDomain, request.yDomain, request.parameters);
+  }
+
+  if (request.kind === 'fit') {
+    return fitModel(request.model, request.points, request.parameters);
+  }
+
+  if (request.kind === 'dataExport') {
+    return collectCurveSamples(request.functions, request.options, request.yDomain, request.parameters);
+  }
+
+  return generateExplicitSeries(
+    request.functions,
+    request.xDomain[0],
+    request.xDomain[1],
+    request.pointCount,
+    request.parameters,
+    request.options
+  );
+}
@@ -0,0 +1,17 @@
+import { runCurveJob, CurveWorkerMessage, CurveWorkerReply } from './curveJobs';
+import { setFunctionDefinitions, setNamedGeometry } from './mathUtils';
+
+self.onmessage = (event: MessageEvent<CurveWorkerMessage>) => {
+  const { jobId, request, definitions, geometry } = event.data;
+  let reply: CurveWorkerReply;
+  setFunctionDefinitions(definitions);
+  setNamedGeometry(geometry);
+
+  try {
+    reply = { jobId, result: runCurveJob(request) };
+  } catch (e) {
+    reply = { jobId, error: e instanceof Error ? e.message : String(e) };
+  }
+
+  self.postMessage(reply);
+};
@@ -0,0 +1,226 @@
+import { runCurveJob, CurveJobRequest, CurveJobResult, CurveJobOutput, CurveWorkerMessage, CurveWorkerReply } from './curveJobs';
+import { FunctionDefinitions, NamedGeometry, getFunctionDefinitions, getNamedGeometry } from './mathUtils';
+
+// A superseded job that is already running is left to finish and its result delivered, so a
+// slow curve that is resubmitted every frame still redraws each time a job completes. Once it
+// has run this long it is abandoned by restarting its worker.
+const SUPERSEDED_TERMINATE_MS = 10000;
+
+interface PendingJob {
+  jobId: number;
+  key: string;
+  request: CurveJobRequest;
+  // The named functions and geometry in force when the job was submitted.
+  definitions: FunctionDefinitions;
+  geometry: NamedGeometry;
+  resolve: (outcome: { result: CurveJobOutput } | null) => void;
+  startedAt: number;
+  // Superseded by a newer job with the same key.
+  stale: boolean;
+}
+
+interface PoolSlot {
+  worker: Worker;
+  job: PendingJob | null;
+}
+
+export interface CurveWorkerPool {
+  // Resolves with null when a newer job with the same key replaces this one before it starts,
+  // when it is cancelled or when it fails, so those can be told apart from a job whose own
+  // result is null. A superseded job that already started still resolves with its result.
+  submit<R extends CurveJobRequest>(key: string, request: R): Promise<{ result: CurveJobResult<R> } | null>;
+  cancel(key: string): void;
+  dispose(): void;
+}
+
+export function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+export function createCurveWorkerPool(
+  size: number = getDefaultPoolSize(),
+  onPendingChange?: (pendingKeys: string[]) => void
+): CurveWorkerPool {
+  let nextJobId = 1;
+  let disposed = false;
+  let useMainThread = typeof Worker === 'undefined';
+  const queue: PendingJob[] = [];
+  const slots: PoolSlot[] = [];
+  // The newest job of each key whose result was delivered; older results are dropped.
+  const deliveredJobIds = new Map<string, number>();
+
+  const deliver = (job: PendingJob, result: CurveJobOutput) => {
+    if ((deliveredJobIds.get(job.key) ?? 0) > job.jobId) {
+      job.resolve(null);
+      return;
+    }
+    deliveredJobIds.set(job.key, job.jobId);
+    job.resolve({ result });
+  };
+
+  const notify = () => {
+    if (!onPendingChange) return;
+    const keys = new Set<string>();
+    queue.forEach((job) => keys.add(job.key));
+    slots.forEach((slot) => {
+      if (slot.job && !slot.job.stale) keys.add(slot.job.key);
+    });
+    onPendingChange(Array.from(keys));
+  };
+
+  const runOnMainThread = (job: PendingJob) => {
+    try {
+      deliver(job, runCurveJob(job.request));
+    } catch {
+      job.resolve(null);
+    }
+  };
+
+  // Workers failed to load (e.g. unsupported environment): finish everything synchronously.
+  const switchToMainThread = () => {
+    useMainThread = true;
+    slots.forEach((slot) => {
+      slot.worker.terminate();
+      if (slot.job) runOnMainThread(slot.job);
+      slot.job = null;
+    });
+    slots.length = 0;
+    queue.splice(0).forEach(runOnMainThread);
+    notify();
+  };
+
+  const spawnWorker = (slot: PoolSlot) => {
+    const worker = new Worker(new URL('./curveWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<CurveWorkerReply>) => {
+      const job = slot.job;
+      const reply = event.data;
+      if (!job || job.jobId !== reply.jobId) return;
+
+      slot.job = null;
+      if (reply.error !== undefined || reply.result === undefined) {
+        job.resolve(null);
+      } else {
+        deliver(job, reply.result);
+      }
+      pump();
+      notify();
+    };
+    worker.onerror = () => switchToMainThread();
+
+    slot.worker = worker;
+  };
+
+  const createSlot = (): PoolSlot => {
+    const slot = { job: null } as PoolSlot;
+    spawnWorker(slot);
+    return slot;
+  };
+
+  const restartSlot = (slot: PoolSlot) => {
+    slot.worker.terminate();
+    slot.job?.resolve(null);
+    slot.job = null;
+    spawnWorker(slot);
+  };
+
+  const pump = () => {
+    if (disposed || useMainThread) return;
+
+    while (queue.length > 0) {
+      // A key whose superseded job is still running waits for it, so the two never run side by side.
+      const index = queue.findIndex((queued) => !slots.some((s) => s.job?.key === queued.key));
+      if (index < 0) return;
+
+      let slot = slots.find((s) => s.job === null);
+      if (!slot && slots.length < size) {
+        slot = createSlot();
+        slots.push(slot);
+      }
+      if (!slot) return;
+
+      const job = queue.splice(index, 1)[0];
+      job.startedAt = performance.now();
+      slot.job = job;
+      const message: CurveWorkerMessage = {
+        jobId: job.jobId,
+        request: job.request,
+        definitions: job.definitions,
+        geometry: job.geometry
+      };
+      slot.worker.postMessage(message);
+    }
+  };
+
+  // Drops the queued jobs for the key and marks the running one stale, restarting its worker once
+  // it has run for `terminateAfterMs`; until then it runs on and delivers its result.
+  const supersede = (key: string, terminateAfterMs: number) => {
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (queue[i].key === key) {
+        queue[i].resolve(null);
+        queue.splice(i, 1);
+      }
+    }
+
+    const now = performance.now();
+    slots.forEach((slot) => {
+      const job = slot.job;
+      if (!job || job.key !== key) return;
+      job.stale = true;
+      if (now - job.startedAt >= terminateAfterMs) {
+        restartSlot(slot);
+      }
+    });
+  };
+
+  return {
+    submit<R extends CurveJobRequest>(key: string, request: R): Promise<{ result: CurveJobResult<R> } | null> {
+      return new Promise((resolve) => {
+        const job: PendingJob = {
+          jobId: nextJobId++,
+          key,
+          request,
+          definitions: getFunctionDefinitions(),
+          geometry: getNamedGeometry(),
+          // The job kind decides the result type, see runCurveJob.
+          resolve: (outcome) => resolve(outcome as { result: CurveJobResult<R> } | null),
+          startedAt: 0,
+          stale: false
+        };
+        if (disposed) {
+          resolve(null);
+          return;
+        }
+        if (useMainThread) {
+          runOnMainThread(job);
+          return;
+        }
+
+        supersede(key, SUPERSEDED_TERMINATE_MS);
+        queue.push(job);
+        pump();
+        notify();
+      });
+    },
+
+    cancel(key: string) {
+      supersede(key, 0);
+      deliveredJobIds.delete(key);
+      pump();
+      notify();
+    },
+
+    dispose() {
+      disposed = true;
+      queue.splice(0).forEach((job) => job.resolve(null));
+      slots.forEach((slot) => {
+        slot.worker.terminate();
+        slot.job?.resolve(null);
+        slot.job = null;
+      });
+      slots.length = 0;
+      notify();
+    }
+  };
+}
@@ -0,0 +1,145 @@
+import {
+  DataPoint,
+  FunctionType,
+  PlotPoint,
+  detectFunctionType,
+  evaluateExplicitAt,
+  generateFunctionData,
+  parseGeometry,
+  sampleParametricCurve
+} from './mathUtils';
+
+export type DataFormat = 'csv' | 'json';
+
+export interface DataExportOptions {
+  sampleCount: number;
+  xRange: [number, number];
+  format: DataFormat;
+}
+
+export interface SampledCurve {
+  id: string;
+  expr: string;
+  type: FunctionType;
+  polylines: PlotPoint[][];
+}
+
+export interface CurveSamples {
+  xRange: [number, number];
+  sampleCount: number;
+  parameters: Record<string, number>;
+  // One row per x with a column per explicit function, keyed by function id like the chart data.
+  explicit: { functions: { id: string; expr: string }[]; points: DataPoint[] };
+  // Parametric and polar curves are sampled over their own parameter range; implicit and
+  // integral curves come from the contour over the x range and the current y range.
+  curves: SampledCurve[];
+}
+
+export const MIN_SAMPLE_COUNT = 2;
+export const MAX_SAMPLE_COUNT = 100000;
+
+const SAMPLES_FILE_FORMAT = 'function-graph-samples';
+const SAMPLES_FILE_VERSION = 1;
+
+export function collectCurveSamples(
+  functions: { id: string; expr: string; visible: boolean }[],
+  options: Omit<DataExportOptions, 'format'>,
+  yDomain: [number, number],
+  parameters: Record<string, number>
+): CurveSamples {
+  const { xRange, sampleCount } = options;
+  const explicitFunctions: { id: string; expr: string }[] = [];
+  const curves: SampledCurve[] = [];
+
+  functions.forEach((f) => {
+    if (!f.visible || !f.expr.trim() || parseGeometry(f.expr)) return;
+    const type = detectFunctionType(f.expr);
+
+    if (type === 'explicit') {
+      explicitFunctions.push({ id: f.id, expr: f.expr });
+      return;
+    }
+    if (type === 'parametric' || type === 'polar') {
+      const polylines = sampleParametricCurve(f.expr, sampleCount, parameters);
+      if (polylines) curves.push({ id: f.id, expr: f.expr, type, polylines });
+      return;
+    }
+    if (type === 'implicit' || type === 'integral') {
+      const data = generateFunctionData(f, xRange, yDomain, parameters);
+      if (data?.polylines) curves.push({ id: f.id, expr: f.expr, type, polylines: data.polylines });
+    }
+  });
+
+  // Evenly spaced rather than adaptively refined, so the rows can serve as a lookup table.
+  const step = (xRange[1] - xRange[0]) / (sampleCount - 1);
+  const points: DataPoint[] = [];
+  if (explicitFunctions.length > 0) {
+    for (let i = 0; i < sampleCount; i++) {
+      const x = i === sampleCount - 1 ? xRange[1] : xRange[0] + i * step;
+      const point: DataPoint = { x };
+      explicitFunctions.forEach((f) => {
+        point[f.id] = evaluateExplicitAt(f.expr, x, parameters);
+      });
+      points.push(point);
+    }
+  }
+
+  return { xRange, sampleCount, parameters, explicit: { functions: explicitFunctions, points }, curves };
+}
+
+export function serializeSamplesJson(samples: CurveSamples): string {
+  return JSON.stringify({
+    format: SAMPLES_FILE_FORMAT,
+    version: SAMPLES_FILE_VERSION,
+    ...samples
+  }, null, 2);
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsvNumber(value: number | null | undefined): string {
+  return typeof value === 'number' && isFinite(value) ? String(value) : '';
+}
+
+// A single rectangular table: the shared x column with one column per explicit function, then
+// an x/y column pair per curve. Undefined values and breaks between polylines are empty cells.
+export function serializeSamplesCsv(samples: CurveSamples): string {
+  const firstLine = (expr: string) => expr.split('\n')[0].trim();
+  const header: string[] = [];
+  const columns: (number | null)[][] = [];
+
+  if (samples.explicit.functions.length > 0) {
+    header.push('x');
+    columns.push(samples.explicit.points.map((p) => p.x));
+    samples.explicit.functions.forEach((f) => {
+      header.push(firstLine(f.expr));
+      columns.push(samples.explicit.points.map((p) => p[f.id] ?? null));
+    });
+  }
+
+  samples.curves.forEach((curve) => {
+    const xs: (number | null)[] = [];
+    const ys: (number | null)[] = [];
+    curve.polylines.forEach((line, index) => {
+      if (index > 0) {
+        xs.push(null);
+        ys.push(null);
+      }
+      line.forEach((p) => {
+        xs.push(p.x);
+        ys.push(p.y);
+      });
+    });
+    header.push(`${firstLine(curve.expr)} x`, `${firstLine(curve.expr)} y`);
+    columns.push(xs, ys);
+  });
+
+  const rowCount = Math.max(0, ...columns.map((column) => column.length));
+  const rows = [header.map(escapeCsvField).join(',')];
+  for (let i = 0; i < rowCount; i++) {
+    rows.push(columns.map((column) => formatCsvNumber(column[i])).join(','));
+  }
+  return `${rows.join('\n')}\n`;
+}
@@ -0,0 +1,75 @@
+import type { FunctionItem } from '../components/FunctionList';
+import { getDerivative, detectFunctionType } from './mathUtils';
+import { FunctionTransform, getAntiderivative, getInverse, getTransformed } from './symbolic';
+
+export type DerivationKind = 'derivative' | 'antiderivative' | 'inverse' | 'transform';
+
+// Link from a derived item to the item it is computed from.
+export interface DerivedLink {
+  source: string;
+  kind: DerivationKind;
+  // Only for transformed copies.
+  transform?: FunctionTransform;
+}
+
+export const DERIVATION_LABELS: Record<DerivationKind, string> = {
+  derivative: 'Derivative',
+  antiderivative: 'Antiderivative',
+  inverse: 'Inverse',
+  transform: 'Transformed copy'
+};
+
+export const DERIVATION_KINDS = Object.keys(DERIVATION_LABELS) as DerivationKind[];
+
+export function getAvailableDerivations(expr: string): DerivationKind[] {
+  const type = detectFunctionType(expr);
+  if (type === 'explicit') return DERIVATION_KINDS;
+  if (type === 'parametric' || type === 'polar') return ['derivative', 'inverse', 'transform'];
+  if (type === 'implicit') return ['inverse', 'transform'];
+  return [];
+}
+
+export function deriveExpression(sourceExpr: string, link: DerivedLink): string | null {
+  if (link.kind === 'derivative') return getDerivative(sourceExpr);
+  if (link.kind === 'antiderivative') return getAntiderivative(sourceExpr);
+  if (link.kind === 'inverse') return getInverse(sourceExpr);
+  return link.transform ? getTransformed(sourceExpr, link.transform) : null;
+}
+
+// Recomputes every derived item from its source, sources first so chains settle in one pass.
+// An item whose source cannot be derived right now (usually mid-edit) keeps its last expression,
+// and one whose source is gone becomes a plain item. Returns the same array when nothing changed.
+export function refreshDerivedFunctions(functions: FunctionItem[]): FunctionItem[] {
+  if (!functions.some((f) => f.derived)) return functions;
+
+  const byId = new Map(functions.map((f) => [f.id, f]));
+  const resolved = new Map<string, FunctionItem>();
+  const visiting = new Set<string>();
+
+  const resolve = (item: FunctionItem): FunctionItem => {
+    const done = resolved.get(item.id);
+    if (done) return done;
+
+    let next = item;
+    const source = item.derived && byId.get(item.derived.source);
+    // Links only ever point at existing items, but a hand-edited share link could form a loop.
+    if (item.derived && (!source || visiting.has(item.id))) {
+      next = { ...item };
+      delete next.derived;
+    } else if (item.derived && source) {
+      visiting.add(item.id);
+      const sourceExpr = resolve(source).expr;
+      visiting.delete(item.id);
+      // Unlinked while resolving its own source, which closed a loop.
+      const settled = resolved.get(item.id);
+      if (settled) return settled;
+      const expr = deriveExpression(sourceExpr, item.derived);
+      if (expr !== null && expr !== item.expr) next = { ...item, expr };
+    }
+    resolved.set(item.id, next);
+    return next;
+  };
+
+  const next = functions.map(resolve);
+  return next.every((f, i) => f === functions[i]) ? functions : next;
+}
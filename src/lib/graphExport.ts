@@ -0,0 +1,199 @@
+export type ImageFormat = 'svg' | 'png';
+
+export interface ImageExportOptions {
+  scale: number;
+  transparent: boolean;
+  hideGrid: boolean;
+  legend: boolean;
+}
+
+export interface LegendEntry {
+  color: string;
+  label: string;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+const LEGEND_FONT_SIZE = 12;
+const LEGEND_ROW_HEIGHT = 18;
+const LEGEND_PADDING = 8;
+const LEGEND_MAX_CHARS = 48;
+
+// Presentation that Tailwind classes and recharts CSS provide in the page but which a
+// standalone file would lose.
+const INLINED_STYLES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline'
+];
+
+// Interaction-only parts of the chart that should not end up in an image.
+const EXCLUDED_SELECTORS = ['.recharts-tooltip-cursor', '.recharts-active-dot'];
+
+// Walks the original and its clone in step, since only the original has computed styles.
+function inlineComputedStyles(source: Element, target: Element, excludedSelector: string) {
+  const sourceNodes = [source, ...Array.from(source.querySelectorAll('*'))];
+  const targetNodes = [target, ...Array.from(target.querySelectorAll('*'))];
+  const excluded: Element[] = [];
+
+  sourceNodes.forEach((node, i) => {
+    const clone = targetNodes[i];
+    if (!clone) return;
+    if (node.matches(excludedSelector)) {
+      excluded.push(clone);
+      return;
+    }
+    const computed = window.getComputedStyle(node);
+    const declarations = INLINED_STYLES
+      .map((name) => [name, computed.getPropertyValue(name)] as const)
+      .filter(([, value]) => value !== '')
+      .map(([name, value]) => `${name}:${value}`);
+    if (declarations.length > 0) clone.setAttribute('style', declarations.join(';'));
+    clone.removeAttribute('class');
+  });
+
+  excluded.forEach((clone) => clone.remove());
+}
+
+function createSvgElement(tag: string, attributes: Record<string, string | number>): SVGElement {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+  return element;
+}
+
+function truncateLabel(label: string): string {
+  const firstLine = label.split('\n')[0];
+  return firstLine.length > LEGEND_MAX_CHARS ? `${firstLine.slice(0, LEGEND_MAX_CHARS - 1)}…` : firstLine;
+}
+
+function appendLegend(svg: SVGSVGElement, entries: LegendEntry[], width: number) {
+  const labels = entries.map((entry) => truncateLabel(entry.label));
+  // Rough monospace advance; the box only needs to cover the text, not fit it exactly.
+  const boxWidth = LEGEND_PADDING * 2 + 24 + Math.max(...labels.map((l) => l.length)) * LEGEND_FONT_SIZE * 0.62;
+  const boxHeight = LEGEND_PADDING * 2 + entries.length * LEGEND_ROW_HEIGHT - 4;
+  const left = width - boxWidth - 16;
+  const top = 16;
+
+  const group = createSvgElement('g', { transform: `translate(${left}, ${top})` });
+  group.appendChild(createSvgElement('rect', {
+    width: boxWidth,
+    height: boxHeight,
+    rx: 6,
+    fill: '#ffffff',
+    'fill-opacity': 0.9,
+    stroke: '#e5e7eb'
+  }));
+
+  entries.forEach((entry, i) => {
+    const y = LEGEND_PADDING + i * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2 - 2;
+    group.appendChild(createSvgElement('line', {
+      x1: LEGEND_PADDING,
+      x2: LEGEND_PADDING + 16,
+      y1: y,
+      y2: y,
+      stroke: entry.color,
+      'stroke-width': 2.5,
+      'stroke-linecap': 'round'
+    }));
+    const text = createSvgElement('text', {
+      x: LEGEND_PADDING + 24,
+      y,
+      fill: '#374151',
+      'font-size': LEGEND_FONT_SIZE,
+      'font-family': 'ui-monospace, SFMono-Regular, Menlo, monospace',
+      'dominant-baseline': 'central'
+    });
+    text.textContent = labels[i];
+    group.appendChild(text);
+  });
+
+  svg.appendChild(group);
+}
+
+// Standalone copy of the chart's SVG: computed styles are inlined so the file renders the
+// same outside the page, and the export options are applied to the copy only.
+export function buildGraphSvg(source: SVGSVGElement, options: ImageExportOptions, legend: LegendEntry[]): string {
+  const { width, height } = source.getBoundingClientRect();
+  const svg = source.cloneNode(true) as SVGSVGElement;
+  const excluded = options.hideGrid ? [...EXCLUDED_SELECTORS, '.recharts-cartesian-grid'] : EXCLUDED_SELECTORS;
+  inlineComputedStyles(source, svg, excluded.join(','));
+
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  svg.setAttribute('font-family', FONT_FAMILY);
+  svg.removeAttribute('style');
+
+  if (!options.transparent) {
+    svg.insertBefore(createSvgElement('rect', { width, height, fill: '#ffffff' }), svg.firstChild);
+  }
+  if (options.legend && legend.length > 0) {
+    appendLegend(svg, legend, width);
+  }
+
+  return new XMLSerializer().serializeToString(svg);
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The graph could not be rendered to an image'));
+    image.src = url;
+  });
+}
+
+export async function renderSvgToPng(svgText: string, width: number, height: number, scale: number): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function exportGraphImage(
+  source: SVGSVGElement,
+  format: ImageFormat,
+  options: ImageExportOptions,
+  legend: LegendEntry[],
+  baseName: string
+): Promise<void> {
+  const svgText = buildGraphSvg(source, options, legend);
+  if (format === 'svg') {
+    downloadBlob(new Blob([svgText], { type: 'image/svg+xml' }), `${baseName}.svg`);
+    return;
+  }
+  const { width, height } = source.getBoundingClientRect();
+  downloadBlob(await renderSvgToPng(svgText, width, height, options.scale), `${baseName}.png`);
+}
@@ -0,0 +1,269 @@
+import type { FunctionItem, FunctionArea, DataSeries } from '../components/FunctionList';
+import { SliderConfig, SliderAnimationMode } from './parameterSliders';
+import { DerivedLink, DERIVATION_KINDS } from './derivedFunctions';
+
+export interface GraphState {
+  functions: FunctionItem[];
+  xDomain: [number, number];
+  yDomain: [number, number];
+  gridDensity: number;
+  aspectLocked: boolean;
+  parameters: Record<string, number>;
+  sliders: Record<string, SliderConfig>;
+}
+
+// Bump when the compact layout below changes; older links keep decoding through their own branch.
+// Version 2 added the tuple slots after the area and the slider map.
+const GRAPH_STATE_VERSION = 2;
+const FIRST_GRAPH_STATE_VERSION = 1;
+const SHARE_HASH_PREFIX = 'g=';
+
+// Compact layout: functions are tuples and optional fields are dropped when at their defaults.
+type CompactFunction = [
+  id: string,
+  expr: string,
+  color: string,
+  hidden?: 1 | 0,
+  area?: FunctionArea | null,
+  series?: CompactSeries | null,
+  velocity?: 1 | 0,
+  derived?: CompactDerived | null,
+  measure?: 1 | 0
+];
+
+type CompactDerived = [
+  source: string,
+  kind: DerivedLink['kind'],
+  transform?: [dx: string, dy: string, sx: string, sy: string]
+];
+
+// Imported data as parallel coordinate arrays, which is much smaller than an object per point.
+interface CompactSeries {
+  n: string;
+  s: DataSeries['style'];
+  x: number[];
+  y: number[];
+}
+
+interface CompactGraphState {
+  v: number;
+  f: CompactFunction[];
+  x: [number, number];
+  y: [number, number];
+  g: number;
+  a: 1 | 0;
+  p: Record<string, number>;
+  // Omitted when every slider uses the defaults.
+  s?: Record<string, CompactSlider>;
+}
+
+type CompactSlider = [min: number, max: number, step: number, mode: SliderAnimationMode, speed: number];
+
+const SLIDER_MODES: SliderAnimationMode[] = ['loop', 'bounce', 'once'];
+
+function isDomain(value: unknown): value is [number, number] {
+  return Array.isArray(value)
+    && value.length === 2
+    && value.every((n) => typeof n === 'number' && isFinite(n))
+    && value[0] < value[1];
+}
+
+function toCompactSeries(series: DataSeries): CompactSeries {
+  return {
+    n: series.name,
+    s: series.style,
+    x: series.points.map((p) => p.x),
+    y: series.points.map((p) => p.y)
+  };
+}
+
+function fromCompactSeries(value: unknown): DataSeries | null {
+  if (!value || typeof value !== 'object') return null;
+  const compact = value as Partial<CompactSeries>;
+  if (typeof compact.n !== 'string' || (compact.s !== 'scatter' && compact.s !== 'line')) return null;
+  if (!Array.isArray(compact.x) || !Array.isArray(compact.y) || compact.x.length !== compact.y.length) return null;
+
+  const points: DataSeries['points'] = [];
+  for (let i = 0; i < compact.x.length; i++) {
+    const x = compact.x[i];
+    const y = compact.y[i];
+    if (typeof x !== 'number' || typeof y !== 'number' || !isFinite(x) || !isFinite(y)) return null;
+    points.push({ x, y });
+  }
+  return { name: compact.n, style: compact.s, points };
+}
+
+function fromCompactSlider(value: unknown): SliderConfig | null {
+  if (!Array.isArray(value) || value.length !== 5) return null;
+  const [min, max, step, mode, speed] = value;
+  if (![min, max, step, speed].every((n) => typeof n === 'number' && isFinite(n))) return null;
+  if (!(min < max) || !(step > 0) || !(speed > 0) || !SLIDER_MODES.includes(mode)) return null;
+  return { min, max, step, mode, speed };
+}
+
+function toCompactDerived(link: DerivedLink): CompactDerived {
+  const { transform } = link;
+  return transform
+    ? [link.source, link.kind, [transform.dx, transform.dy, transform.sx, transform.sy]]
+    : [link.source, link.kind];
+}
+
+function fromCompactDerived(value: unknown): DerivedLink | null {
+  if (!Array.isArray(value)) return null;
+  const [source, kind, transform] = value;
+  if (typeof source !== 'string' || !DERIVATION_KINDS.includes(kind)) return null;
+  if (kind !== 'transform') return { source, kind };
+  if (!Array.isArray(transform) || transform.length !== 4 || !transform.every((t) => typeof t === 'string')) return null;
+  const [dx, dy, sx, sy] = transform;
+  return { source, kind, transform: { dx, dy, sx, sy } };
+}
+
+function isArea(value: unknown): value is FunctionArea {
+  if (!value || typeof value !== 'object') return false;
+  const area = value as Record<string, unknown>;
+  return typeof area.from === 'string'
+    && typeof area.to === 'string'
+    && (area.against === undefined || typeof area.against === 'string');
+}
+
+export function toCompactGraphState(state: GraphState): CompactGraphState {
+  return {
+    v: GRAPH_STATE_VERSION,
+    f: state.functions.map((f) => {
+      const entry: CompactFunction = [
+        f.id,
+        f.expr,
+        f.color,
+        f.visible ? 0 : 1,
+        f.area ?? null,
+        f.series ? toCompactSeries(f.series) : null,
+        f.velocity ? 1 : 0,
+        f.derived ? toCompactDerived(f.derived) : null,
+        f.measure ? 1 : 0
+      ];
+      // Every optional field defaults to a falsy value, so trailing defaults can be dropped.
+      while (entry.length > 3 && !entry[entry.length - 1]) entry.pop();
+      return entry;
+    }),
+    x: state.xDomain,
+    y: state.yDomain,
+    g: state.gridDensity,
+    a: state.aspectLocked ? 1 : 0,
+    p: state.parameters,
+    ...(Object.keys(state.sliders).length > 0 ? {
+      s: Object.fromEntries(Object.entries(state.sliders).map(([name, c]) => [
+        name,
+        [c.min, c.max, c.step, c.mode, c.speed] as CompactSlider
+      ]))
+    } : {})
+  };
+}
+
+// Validates untrusted input (links, storage) and returns null rather than a partial state.
+export function fromCompactGraphState(value: unknown): GraphState | null {
+  if (!value || typeof value !== 'object') return null;
+  const compact = value as Partial<CompactGraphState>;
+  if (compact.v !== GRAPH_STATE_VERSION && compact.v !== FIRST_GRAPH_STATE_VERSION) return null;
+  // Version 1 function tuples end at the area, and it has no sliders.
+  const legacy = compact.v === FIRST_GRAPH_STATE_VERSION;
+  if (!Array.isArray(compact.f) || !isDomain(compact.x) || !isDomain(compact.y)) return null;
+  if (typeof compact.g !== 'number' || !isFinite(compact.g)) return null;
+
+  const functions: FunctionItem[] = [];
+  for (const entry of compact.f) {
+    if (!Array.isArray(entry)) return null;
+    const [id, expr, color, hidden, area, series, velocity, derived, measure] = legacy ? entry.slice(0, 5) : entry;
+    if (typeof id !== 'string' || typeof expr !== 'string' || typeof color !== 'string') return null;
+    const dataSeries = series == null ? null : fromCompactSeries(series);
+    if (series != null && !dataSeries) return null;
+    const link = derived == null ? null : fromCompactDerived(derived);
+    functions.push({
+      id,
+      expr,
+      color,
+      visible: hidden !== 1,
+      ...(isArea(area) ? { area } : {}),
+      ...(dataSeries ? { series: dataSeries } : {}),
+      ...(velocity === 1 ? { velocity: true } : {}),
+      ...(link ? { derived: link } : {}),
+      ...(measure === 1 ? { measure: true } : {})
+    });
+  }
+
+  const parameters: Record<string, number> = {};
+  if (compact.p && typeof compact.p === 'object') {
+    Object.entries(compact.p).forEach(([name, n]) => {
+      if (typeof n === 'number' && isFinite(n)) parameters[name] = n;
+    });
+  }
+
+  const sliders: Record<string, SliderConfig> = {};
+  if (!legacy && compact.s && typeof compact.s === 'object') {
+    Object.entries(compact.s).forEach(([name, value]) => {
+      const slider = fromCompactSlider(value);
+      if (slider) sliders[name] = slider;
+    });
+  }
+
+  return {
+    functions,
+    xDomain: compact.x,
+    yDomain: compact.y,
+    gridDensity: compact.g,
+    aspectLocked: compact.a !== 0,
+    parameters,
+    sliders
+  };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function transformBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Hash payload is "<codec>.<base64url>": "z" is deflate-raw compressed JSON, "j" plain JSON
+// for browsers without CompressionStream.
+export async function encodeShareHash(state: GraphState): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(toCompactGraphState(state)));
+
+  if (typeof CompressionStream !== 'undefined') {
+    const compressed = await transformBytes(json, new CompressionStream('deflate-raw'));
+    return `${SHARE_HASH_PREFIX}z.${toBase64Url(compressed)}`;
+  }
+  return `${SHARE_HASH_PREFIX}j.${toBase64Url(json)}`;
+}
+
+export async function decodeShareHash(hash: string): Promise<GraphState | null> {
+  const payload = hash.replace(/^#/, '');
+  if (!payload.startsWith(SHARE_HASH_PREFIX)) return null;
+
+  const [codec, data] = payload.slice(SHARE_HASH_PREFIX.length).split('.', 2);
+  if (!data) return null;
+
+  try {
+    let bytes = fromBase64Url(data);
+    if (codec === 'z') {
+      if (typeof DecompressionStream === 'undefined') return null;
+      bytes = await transformBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (codec !== 'j') {
+      return null;
+    }
+    return fromCompactGraphState(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    return null;
+  }
+}
@@ -1,22 +1,115 @@
-import { compile, parse, derivative } from 'mathjs';
+import { compile, parse, derivative, ParenthesisNode } from 'mathjs';
 
 export interface DataPoint {
   x: number;
   [key: string]: number | null;
 }
 
+export type GeometryType = 'point' | 'segment' | 'polyline' | 'polygon' | 'circle' | 'ray' | 'line' | 'vector';
+
 export interface Geometry {
-  type: 'point' | 'polygon';
+  type: GeometryType;
+  // Defining points in constructor order; a circle has only its centre here.
   points: { x: number; y: number }[];
+  radius?: number;
+  // Constructor arguments as written, kept when some are names or expressions rather than numbers.
+  args?: string[];
+  // Set by `P1 = polygon(...)`, which lets other expressions measure it, e.g. area(P1).
+  name?: string;
+}
+
+export type NamedGeometry = Record<string, Geometry>;
+
+// A point bound to a curve, written `A = point on f at 1.5`.
+export interface Glider {
+  // Set by `A = point on ...`, which lets other expressions use A.x and A.y.
+  name?: string;
+  // A named function, or a curve named with `C = ...`.
+  curve: string;
+  // The curve parameter (x, t or theta), or a point `(x, y)` to snap onto the curve; null when omitted.
+  at: string | null;
+}
+
+export interface GliderPosition {
+  x: number;
+  y: number;
+  // Curve parameter at the point; implicit curves have none.
+  parameter: number | null;
+}
+
+export interface PolygonMeasurements {
+  sides: number[];
+  // Interior angle at each vertex, in radians.
+  angles: number[];
+  // Positive when the vertices run counter-clockwise.
+  signedArea: number;
+  perimeter: number;
+  centroid: { x: number; y: number };
+}
+
+export type FunctionType = 'explicit' | 'parametric' | 'polar' | 'implicit' | 'inequality' | 'integral' | 'geometry';
+
+export interface Discontinuity {
+  kind: 'pole' | 'jump';
+  x: number;
+  // One-sided limits for jumps; poles leave these undefined.
+  left?: number;
+  right?: number;
+  // Side whose limit equals f(x), drawn as a filled dot (the other side is hollow).
+  filled?: 'left' | 'right';
+}
+
+export interface InequalityCondition {
+  // Oriented so the condition holds where expr > 0 (or >= 0 when not strict).
+  expr: string;
+  strict: boolean;
 }
 
-export type FunctionType = 'explicit' | 'parametric' | 'polar' | 'implicit' | 'geometry';
+export interface InequalityBoundary {
+  strict: boolean;
+  polylines: PlotPoint[][];
+}
+
+export interface RegionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface IntegralSpec {
+  // Expressions in x; without a lower curve the area is measured against the x-axis.
+  upper: string;
+  lower: string | null;
+  // Bounds may reference parameters.
+  from: string;
+  to: string;
+}
+
+export interface IntegralRegion {
+  sign: 1 | -1;
+  points: PlotPoint[];
+}
+
+export interface IntegralData {
+  from: number;
+  to: number;
+  value: number;
+  error: number;
+  regions: IntegralRegion[];
+  // Points on the upper curve at each bound, used as drag handles.
+  handles: [PlotPoint, PlotPoint];
+}
 
 export interface FunctionData {
   type: FunctionType;
   points: { x: number; y: number }[];
   segments?: { x: number; y: number }[][]; // For implicit plots (disconnected lines)
   polylines?: PlotPoint[][];
+  discontinuities?: Discontinuity[]; // For explicit plots
+  boundaries?: InequalityBoundary[]; // For inequality plots
+  region?: RegionRect[]; // Shaded cells for inequality plots, merged into rectangles
+  integral?: IntegralData; // For integral(...) plots and explicit functions with area shading
 }
 
 export interface PlotPoint {
@@ -24,6 +117,78 @@ export interface PlotPoint {
   y: number;
 }
 
+export type ParameterVariable = 't' | 'theta';
+
+export interface ParameterRange {
+  variable: ParameterVariable;
+  min: string;
+  max: string;
+}
+
+export const DEFAULT_PARAMETER_RANGES: Record<ParameterVariable, { min: string; max: string }> = {
+  t: { min: '-10', max: '10' },
+  theta: { min: '0', max: '2pi' },
+};
+
+const PARAMETER_STEPS = 500;
+const MAX_PARAMETER_STEPS = 5000;
+
+// Trailing range suffix, e.g. "(cos(t), sin(t)) {0 <= t <= 2pi}" or "r = theta {0 < theta < 8pi}".
+const PARAMETER_RANGE_REGEX = /\s*\{\s*([^{}<>:]+?)\s*<=?\s*(t|theta)\s*<=?\s*([^{}<>:]+?)\s*\}\s*$/;
+
+const INTEGRAL_REGEX = /^\s*integral\s*\(([\s\S]*)\)\s*$/;
+const SCRIPT_ASSIGNMENT_REGEX = /^[A-Za-z_]\w*\s*=(?!=)/;
+
+// A script statement declaring a slider: `a = slider(min, max[, step[, value]])`.
+const SLIDER_DECLARATION_REGEX = /(^|[\n;])(\s*([A-Za-z_]\w*)\s*=\s*slider\s*\(((?:[^()]|\([^()]*\))*)\)\s*)(?=$|[\n;])/g;
+
+// A named function definition such as `f(x) = x^2 - 1`, on a line of its own.
+const FUNCTION_DEFINITION_REGEX = /^\s*([A-Za-z_]\w*)\s*\(\s*([A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*)\s*\)\s*=(?!=)([^\n;]+)$/;
+// A call that may refer to a definition, including derivatives written with primes: f'(x).
+const FUNCTION_REFERENCE_REGEX = /(?<![\w.'])([A-Za-z_]\w*)('*)\s*\(/g;
+const RESERVED_FUNCTION_NAMES = new Set([
+  'x', 'y', 'r', 't', 'theta', 'time', 'integral', 'slider',
+  'segment', 'polyline', 'polygon', 'circle', 'ray', 'line', 'vector',
+  'area', 'perimeter', 'distance', 'centroidX', 'centroidY', 'point'
+]);
+
+// Geometry is written with numeric literals so dragging a handle can rewrite the text.
+const NUMBER_LITERAL_REGEX = /^-?\d*\.?\d+(?:e[+-]?\d+)?$/i;
+const POINT_LITERAL_REGEX = /^\(\s*(-?\d*\.?\d+(?:e[+-]?\d+)?)\s*,\s*(-?\d*\.?\d+(?:e[+-]?\d+)?)\s*\)$/i;
+const NAMED_GEOMETRY_REGEX = /^([A-Za-z_]\w*)\s*=(?!=)\s*([\s\S]+)$/;
+const IDENTIFIER_REGEX = /^[A-Za-z_]\w*$/;
+// A measurement of named geometry, e.g. area(P1) or distance(A, B).
+const GEOMETRY_MEASUREMENT_REGEX = /(?<![\w.])(area|perimeter|centroidX|centroidY|distance)\s*\(\s*([A-Za-z_]\w*)\s*(?:,\s*([A-Za-z_]\w*)\s*)?\)/g;
+// A coordinate of a named point, e.g. A.x.
+const POINT_COORDINATE_REGEX = /(?<![\w.])([A-Za-z_]\w*)\.(x|y)(?![\w(])/g;
+const GLIDER_REGEX = /^(?:([A-Za-z_]\w*)\s*=(?!=)\s*)?point\s+on\s+([A-Za-z_]\w*)(?:\s+at\b\s*([\s\S]+?))?\s*$/;
+// A curve named so points can glide on it, e.g. `C = (cos(t), sin(t))` or `C = x^2 + y^2 = 4`.
+// Explicit curves are named as definitions instead: f(x) = ...
+const CURVE_NAME_REGEX = /^(\s*([A-Za-z_]\w*)\s*=(?!=)\s*)([^\n;]+)$/;
+const GLIDER_SEARCH_STEPS = 400;
+const GLIDER_REFINE_ITERATIONS = 40;
+// Where Newton steps start on an implicit curve when the glider gives no point.
+const GLIDER_IMPLICIT_START: PlotPoint = { x: 1, y: 1 };
+const GEOMETRY_CONSTRUCTOR_REGEX = /^(segment|polyline|polygon|circle|ray|line|vector)\s*\(([\s\S]*)\)$/;
+// Fewest and most points each constructor takes.
+const GEOMETRY_POINT_COUNTS: Record<Exclude<GeometryType, 'point' | 'circle'>, [number, number]> = {
+  segment: [2, 2],
+  ray: [2, 2],
+  line: [2, 2],
+  vector: [2, 2],
+  polyline: [2, Infinity],
+  polygon: [3, Infinity]
+};
+const GEOMETRY_USAGE: Record<Exclude<GeometryType, 'point'>, string> = {
+  segment: 'two points',
+  ray: 'two points',
+  line: 'two points',
+  vector: 'two points',
+  polyline: 'two or more points',
+  polygon: 'three or more points',
+  circle: 'a centre point and a radius'
+};
+
 const COMPILED_EXPRESSION_CACHE_LIMIT = 200;
 const compiledExpressionCache = new Map<string, any>();
 
@@ -45,8 +210,270 @@ function getCompiledExpression(expr: string): any {
   return compiled;
 }
 
-export function normalizeExpression(expr: string): string {
+export interface SliderDeclaration {
+  min: number;
+  max: number;
+  step?: number;
+  value?: number;
+}
+
+// The slider declarations of a script as written, e.g. `a = slider(0, 5)`.
+export function getSliderDeclarationStatements(expr: string): string[] {
+  return Array.from(expr.matchAll(SLIDER_DECLARATION_REGEX), (match) => match[2].trim());
+}
+
+export function parseSliderDeclarations(expr: string): Record<string, SliderDeclaration> {
+  const declarations: Record<string, SliderDeclaration> = {};
+  for (const match of expr.matchAll(SLIDER_DECLARATION_REGEX)) {
+    try {
+      const values = splitTopLevelArguments(match[4]).map((arg) => {
+        const value = getCompiledExpression(normalizeExpression(arg)).evaluate({});
+        return typeof value === 'number' ? value : NaN;
+      });
+      const [min, max, step, value] = values;
+      if (values.length < 2 || values.length > 4 || !values.every(isFinite) || !(min < max)) continue;
+      if (step !== undefined && !(step > 0)) continue;
+      declarations[match[3]] = {
+        min,
+        max,
+        ...(step !== undefined ? { step } : {}),
+        ...(value !== undefined ? { value } : {})
+      };
+    } catch {
+      // A malformed declaration is reported by the diagnostics like any other statement.
+    }
+  }
+  return declarations;
+}
+
+export interface FunctionDefinition {
+  params: string[];
+  // Normalized body with references to other definitions already expanded.
+  body: string;
+}
+
+export type FunctionDefinitions = Record<string, FunctionDefinition>;
+
+export interface FunctionDefinitionTable {
+  definitions: FunctionDefinitions;
+  // Keyed by the id of the item whose definition could not be used.
+  errors: Record<string, string>;
+}
+
+// The symbol table every expression is normalized against. The main thread installs it from the
+// function list; curve workers receive a copy with each job.
+let functionDefinitions: FunctionDefinitions = {};
+
+export function getFunctionDefinitions(): FunctionDefinitions {
+  return functionDefinitions;
+}
+
+export function setFunctionDefinitions(definitions: FunctionDefinitions) {
+  functionDefinitions = definitions;
+}
+
+// Named geometry, installed and shipped to workers alongside the definitions.
+let namedGeometry: NamedGeometry = {};
+
+export function getNamedGeometry(): NamedGeometry {
+  return namedGeometry;
+}
+
+export function setNamedGeometry(geometry: NamedGeometry) {
+  namedGeometry = geometry;
+}
+
+// Both tables, for the code that normalizes against tables that are not installed yet.
+export interface SymbolTables {
+  definitions: FunctionDefinitions;
+  geometry: NamedGeometry;
+}
+
+function getInstalledTables(): SymbolTables {
+  return { definitions: functionDefinitions, geometry: namedGeometry };
+}
+
+export function parseFunctionDefinition(expr: string): { name: string; params: string[]; body: string } | null {
+  const match = expr.match(FUNCTION_DEFINITION_REGEX);
+  if (!match) return null;
+  const name = match[1];
+  const params = match[2].split(',').map((param) => param.trim());
+  if (RESERVED_FUNCTION_NAMES.has(name) || isKnownFunction(name)) return null;
+  if (new Set(params).size !== params.length) return null;
+  return { name, params, body: match[3].trim() };
+}
+
+function findClosingParen(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function getReferencedNames(text: string): string[] {
+  return Array.from(text.matchAll(FUNCTION_REFERENCE_REGEX), (match) => match[1]);
+}
+
+// Inlines one call: the body, differentiated `order` times, with each parameter replaced by its
+// argument. Null when the call does not fit the definition.
+function substituteDefinition(definition: FunctionDefinition, order: number, args: string[]): string | null {
+  if (args.length !== definition.params.length || (order > 0 && definition.params.length !== 1)) return null;
+  try {
+    let node = parse(definition.body);
+    for (let i = 0; i < order; i++) node = derivative(node, definition.params[0]);
+    const values = new Map(definition.params.map((param, i) => {
+      const value: any = parse(args[i]);
+      return [param, value.isSymbolNode || value.isConstantNode ? value : new ParenthesisNode(value)];
+    }));
+    const substituted = node.transform((child: any, path: string) => (
+      child.isSymbolNode && path !== 'fn' && values.has(child.name) ? values.get(child.name) : child
+    ));
+    return `(${substituted.toString()})`;
+  } catch {
+    return null;
+  }
+}
+
+function expandFunctionReferences(text: string, definitions: FunctionDefinitions): string {
+  let result = '';
+  let copied = 0;
+  const regex = new RegExp(FUNCTION_REFERENCE_REGEX.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text))) {
+    const definition = definitions[match[1]];
+    if (!definition) continue;
+    const open = match.index + match[0].length - 1;
+    const close = findClosingParen(text, open);
+    if (close < 0) break;
+
+    const args = splitTopLevelArguments(text.slice(open + 1, close)).map((arg) => expandFunctionReferences(arg, definitions));
+    const expansion = substituteDefinition(definition, match[2].length, args);
+    // A call that does not fit is left for the diagnostics; calls in its arguments still expand.
+    if (expansion === null) continue;
+
+    result += text.slice(copied, match.index) + expansion;
+    copied = close + 1;
+    regex.lastIndex = close + 1;
+  }
+  return result + text.slice(copied);
+}
+
+function hasFunctionReferences(text: string): boolean {
+  return getReferencedNames(text).some((name) => functionDefinitions[name] !== undefined);
+}
+
+// Resolves the definitions in the list in dependency order. Definitions in a cycle, or that depend
+// on one, are left out and reported against their item.
+export function buildFunctionDefinitions(items: { id: string; expr: string }[]): FunctionDefinitionTable {
+  const parsed = new Map<string, { id: string; params: string[]; body: string }>();
+  const errors: Record<string, string> = {};
+
+  items.forEach((item) => {
+    const definition = parseFunctionDefinition(item.expr);
+    if (!definition) return;
+    if (parsed.has(definition.name)) {
+      errors[item.id] = `${definition.name} is already defined`;
+      return;
+    }
+    parsed.set(definition.name, { id: item.id, params: definition.params, body: normalizeNotation(definition.body) });
+  });
+
+  const definitions: FunctionDefinitions = {};
+  const visiting: string[] = [];
+  const failed = new Set<string>();
+
+  const resolve = (name: string): boolean => {
+    if (definitions[name]) return true;
+    if (failed.has(name)) return false;
+    const entry = parsed.get(name);
+    if (!entry) return false;
+
+    const cycleStart = visiting.indexOf(name);
+    if (cycleStart >= 0) {
+      const cycle = [...visiting.slice(cycleStart), name];
+      cycle.slice(0, -1).forEach((member) => {
+        const id = parsed.get(member)?.id;
+        if (id) errors[id] = `Circular definition: ${cycle.join(' → ')}`;
+        failed.add(member);
+      });
+      return false;
+    }
+
+    visiting.push(name);
+    const dependencies = Array.from(new Set(getReferencedNames(entry.body))).filter((dependency) => parsed.has(dependency));
+    const resolved = dependencies.map(resolve).every(Boolean);
+    visiting.pop();
+
+    if (!resolved || failed.has(name)) {
+      failed.add(name);
+      errors[entry.id] ??= `${name} depends on a circular definition`;
+      return false;
+    }
+    definitions[name] = { params: entry.params, body: expandFunctionReferences(entry.body, definitions) };
+    return true;
+  };
+
+  parsed.forEach((_entry, name) => resolve(name));
+  return { definitions, errors };
+}
+
+function expandGeometryMeasurements(text: string, geometryTable: NamedGeometry): string {
+  return text
+    .replace(GEOMETRY_MEASUREMENT_REGEX, (match, measure: string, first: string, second?: string) => {
+      const value = measureGeometry(measure, geometryTable[first], second === undefined ? undefined : geometryTable[second]);
+      // Unknown names are left for the diagnostics to report.
+      return value === null ? match : `(${value})`;
+    })
+    .replace(POINT_COORDINATE_REGEX, (match, name: string, axis: 'x' | 'y') => {
+      const geometry = geometryTable[name];
+      return geometry?.type === 'point' ? `(${geometry.points[0][axis]})` : match;
+    });
+}
+
+function expandAllReferences(normalized: string, tables: SymbolTables): string {
+  const { definitions, geometry } = tables;
+  const expanded = Object.keys(definitions).length > 0 ? expandFunctionReferences(normalized, definitions) : normalized;
+  return Object.keys(geometry).length > 0 ? expandGeometryMeasurements(expanded, geometry) : expanded;
+}
+
+// Normalizes against the installed tables unless others are given.
+export function normalizeExpression(expr: string, tables: SymbolTables = getInstalledTables()): string {
+  const normalized = blankCurveName(normalizeNotation(expr));
+  const definition = parseFunctionDefinition(normalized);
+  if (!definition) return expandAllReferences(normalized, tables);
+
+  // A definition plots as its own body in x; a definition of several variables only defines.
+  if (definition.params.length !== 1) return '';
+  const own = { params: definition.params, body: expandAllReferences(definition.body, tables) };
+  return substituteDefinition(own, 0, ['x']) ?? normalized;
+}
+
+export function parseCurveName(expr: string): { name: string; body: string } | null {
+  const match = expr.match(CURVE_NAME_REGEX);
+  if (!match || RESERVED_FUNCTION_NAMES.has(match[2])) return null;
+  const body = match[3];
+  // Only a body that is a curve by itself: a tuple, a polar equation or another equation.
+  const isCurve = /^\s*\(.*,.*\)\s*$/.test(body) || /^\s*r\s*=/i.test(body) || /(^|[^<>=!])=(?!=)/.test(body);
+  return isCurve ? { name: match[2], body } : null;
+}
+
+// The name of a named curve only labels it, so it is blanked like a slider declaration.
+function blankCurveName(text: string): string {
+  const named = parseCurveName(text);
+  return named ? ' '.repeat(text.length - named.body.length) + named.body : text;
+}
+
+function normalizeNotation(expr: string): string {
   let normalized = expr;
+
+  // Slider declarations only configure the parameter; the name is then free in the script.
+  // Blanked to the same length so diagnostic positions still line up.
+  normalized = normalized.replace(SLIDER_DECLARATION_REGEX, (_match, separator: string, statement: string) => (
+    separator + ' '.repeat(statement.length)
+  ));
   
   // Replace common symbols and aliases
   normalized = normalized.replace(/π/g, 'pi');
@@ -56,7 +483,8 @@ export function normalizeExpression(expr: string): string {
   normalized = normalized.replace(/∞/g, 'Infinity');
   
   // Handle Piecewise notation: { x<0: x^2, x>=0: x } -> x<0 ? x^2 : (x>=0 ? x : null)
-  if (normalized.trim().startsWith('{') && normalized.trim().endsWith('}')) {
+  // Braces without ':' are inequality systems, e.g. { x > 0, y < sin(x) }.
+  if (normalized.trim().startsWith('{') && normalized.trim().endsWith('}') && normalized.includes(':')) {
     const content = normalized.trim().slice(1, -1);
     const parts = content.split(',').map(p => p.trim());
     
@@ -74,11 +502,217 @@ export function normalizeExpression(expr: string): string {
   return normalized;
 }
 
-export function detectFunctionType(expr: string): FunctionType {
-  const normalized = normalizeExpression(expr);
+export function splitParameterRange(expr: string): { body: string; range: ParameterRange | null } {
+  const match = expr.match(PARAMETER_RANGE_REGEX);
+  if (!match || match.index === undefined) return { body: expr, range: null };
+
+  return {
+    body: expr.slice(0, match.index),
+    range: { variable: match[2] as ParameterVariable, min: match[1], max: match[3] }
+  };
+}
+
+export function setParameterRange(expr: string, variable: ParameterVariable, min: string, max: string): string {
+  const { body } = splitParameterRange(expr);
+  const trimmedMin = min.trim();
+  const trimmedMax = max.trim();
+  if (!trimmedMin && !trimmedMax) return body;
+
+  const defaults = DEFAULT_PARAMETER_RANGES[variable];
+  return `${body.trimEnd()} {${trimmedMin || defaults.min} <= ${variable} <= ${trimmedMax || defaults.max}}`;
+}
+
+export function getParameterVariable(type: FunctionType): ParameterVariable | null {
+  if (type === 'parametric') return 't';
+  if (type === 'polar') return 'theta';
+  return null;
+}
+
+function evaluateRangeBound(bound: string, fallback: string, parameters: Record<string, number>): number {
+  for (const candidate of [bound, fallback]) {
+    try {
+      const value = getCompiledExpression(normalizeExpression(candidate)).evaluate({ ...parameters });
+      if (typeof value === 'number' && isFinite(value)) return value;
+    } catch {
+      // Bound is incomplete or references an unknown symbol, try the default.
+    }
+  }
+  return NaN;
+}
+
+export function resolveParameterRange(
+  range: ParameterRange | null,
+  variable: ParameterVariable,
+  parameters: Record<string, number> = {}
+): [number, number] {
+  const defaults = DEFAULT_PARAMETER_RANGES[variable];
+  const bounds = range && range.variable === variable ? range : defaults;
+  const min = evaluateRangeBound(bounds.min, defaults.min, parameters);
+  const max = evaluateRangeBound(bounds.max, defaults.max, parameters);
+
+  if (!(max > min)) {
+    return [
+      evaluateRangeBound(defaults.min, defaults.min, parameters),
+      evaluateRangeBound(defaults.max, defaults.max, parameters)
+    ];
+  }
+  return [min, max];
+}
+
+// Keep the default sample density for the default span and scale it up for longer ranges.
+function getParameterSteps(variable: ParameterVariable, min: number, max: number): number {
+  const defaults = resolveParameterRange(null, variable);
+  const defaultSpan = defaults[1] - defaults[0];
+  const scaled = Math.ceil(PARAMETER_STEPS * (max - min) / defaultSpan);
+  return Math.min(MAX_PARAMETER_STEPS, Math.max(PARAMETER_STEPS, scaled));
+}
+
+interface ExpressionPiece {
+  text: string;
+  // Index of the first character of text in the source it was split from.
+  offset: number;
+}
+
+function trimPiece(text: string, offset: number): ExpressionPiece {
+  const leading = text.length - text.trimStart().length;
+  return { text: text.trim(), offset: offset + leading };
+}
+
+function splitTopLevelPieces(content: string, offset: number = 0, separator: string = ','): ExpressionPiece[] {
+  const pieces: ExpressionPiece[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '(' || char === '[' || char === '{') depth++;
+    else if (char === ')' || char === ']' || char === '}') depth--;
+    else if (separator.includes(char) && depth === 0) {
+      pieces.push(trimPiece(content.slice(start, i), offset + start));
+      start = i + 1;
+    }
+  }
+  pieces.push(trimPiece(content.slice(start), offset + start));
+
+  return pieces;
+}
+
+function splitTopLevelArguments(content: string): string[] {
+  return splitTopLevelPieces(content).map((piece) => piece.text);
+}
+
+export function parseIntegral(expr: string): IntegralSpec | null {
+  const match = expr.match(INTEGRAL_REGEX);
+  if (!match) return null;
+
+  const args = splitTopLevelArguments(match[1]);
+  if (args.some((arg) => !arg)) return null;
+  if (args.length === 3) return { upper: args[0], lower: null, from: args[1], to: args[2] };
+  if (args.length === 4) return { upper: args[0], lower: args[1], from: args[2], to: args[3] };
+  return null;
+}
+
+export function setIntegralBound(expr: string, bound: 'from' | 'to', value: string): string {
+  const match = expr.match(INTEGRAL_REGEX);
+  if (!match) return expr;
+
+  const args = splitTopLevelArguments(match[1]);
+  if (args.length < 3) return expr;
+  args[bound === 'from' ? args.length - 2 : args.length - 1] = value;
+  return `integral(${args.join(', ')})`;
+}
+
+const COMPARISON_OPERATORS: Record<string, { flip: boolean; strict: boolean }> = {
+  '>': { flip: false, strict: true },
+  '>=': { flip: false, strict: false },
+  '<': { flip: true, strict: true },
+  '<=': { flip: true, strict: false },
+};
+
+// Split "{a, b}" (or a bare "a") into its top-level comma separated parts.
+function splitInequalityConditions(normalized: string): string[] {
+  let content = normalized.trim();
+  if (content.startsWith('{') && content.endsWith('}')) {
+    content = content.slice(1, -1);
+  }
+
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of content) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+// Only a comparison at the top of each condition makes an inequality; one inside an expression,
+// e.g. (x > 0) * x^2, is a 0/1 factor of an explicit function.
+function isInequality(normalized: string): boolean {
+  if (!/[<>]/.test(normalized)) return false;
+  try {
+    return splitInequalityConditions(normalized).every((part) => {
+      const node: any = parse(part);
+      return node.isRelationalNode || (node.isOperatorNode && COMPARISON_OPERATORS[node.op] !== undefined);
+    });
+  } catch (e) {
+    return false;
+  }
+}
+
+export function parseInequality(expr: string): InequalityCondition[] | null {
+  try {
+    const normalized = normalizeExpression(splitParameterRange(expr).body);
+    const conditions: InequalityCondition[] = [];
+
+    const addCondition = (op: string, lhs: string, rhs: string): boolean => {
+      const comparison = COMPARISON_OPERATORS[op];
+      if (!comparison) return false;
+      conditions.push({
+        expr: comparison.flip ? `(${rhs}) - (${lhs})` : `(${lhs}) - (${rhs})`,
+        strict: comparison.strict
+      });
+      return true;
+    };
+
+    for (const part of splitInequalityConditions(normalized)) {
+      const node: any = parse(part);
+      if (node.isOperatorNode && node.args?.length === 2) {
+        if (!addCondition(node.op, node.args[0].toString(), node.args[1].toString())) return null;
+      } else if (node.isRelationalNode) {
+        // Chained comparisons such as 0 < x < 2
+        const ops: Record<string, string> = { larger: '>', largerEq: '>=', smaller: '<', smallerEq: '<=' };
+        for (let i = 0; i < node.conditionals.length; i++) {
+          const op = ops[node.conditionals[i]];
+          if (!op || !addCondition(op, node.params[i].toString(), node.params[i + 1].toString())) return null;
+        }
+      } else {
+        return null;
+      }
+    }
+
+    return conditions.length > 0 ? conditions : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function detectFunctionType(expr: string, tables: SymbolTables = getInstalledTables()): FunctionType {
+  const normalized = normalizeExpression(splitParameterRange(expr).body, tables);
   
-  // Geometry
-  if (parseGeometry(normalized)) return 'geometry';
+  // Geometry, including points gliding on a curve
+  if (parseGeometry(normalized) || parseGlider(expr)) return 'geometry';
+
+  // Definite integral: integral(f, a, b) or integral(f, g, a, b)
+  if (INTEGRAL_REGEX.test(normalized)) return 'integral';
   
   // Polar: r = ...
   if (/^\s*r\s*=/i.test(normalized)) return 'polar';
@@ -86,37 +720,80 @@ export function detectFunctionType(expr: string): FunctionType {
   // Parametric: (..., ...)
   if (/^\s*\(.*,.*\)\s*$/.test(normalized)) return 'parametric';
   
-  // Implicit: ... = ... (but not y = ... or r = ...)
-  if (normalized.includes('=') && !/^\s*(y|f\(x\))\s*=/i.test(normalized)) return 'implicit';
+  // Scripts assign helper variables first; the last statement decides what is plotted.
+  const statements = splitTopLevelPieces(normalized, 0, '\n;').filter((piece) => piece.text);
+  if (
+    statements.length > 1
+    && statements.slice(0, -1).every((piece) => SCRIPT_ASSIGNMENT_REGEX.test(piece.text))
+    && detectFunctionType(statements[statements.length - 1].text, tables) === 'explicit'
+  ) {
+    return 'explicit';
+  }
+
+  // Inequality: comparisons, e.g. y > x^2 or {x > 0, y < sin(x)}
+  if (isInequality(normalized)) return 'inequality';
+
+  // Implicit: ... = ... (but not y = ... or r = ..., and not the '=' of <=, >=, ==, !=)
+  if (/(^|[^<>=!])=(?!=)/.test(normalized) && !/^\s*(y|f\(x\))\s*=/i.test(normalized)) return 'implicit';
   
   return 'explicit';
 }
 
 export function extractVariables(expr: string): string[] {
   try {
-    const normalized = normalizeExpression(expr);
-    // Skip if it's a geometry definition
-    if (parseGeometry(normalized)) return [];
+    // A glider's position may be driven by a parameter, e.g. point on f at a.
+    const glider = parseGlider(expr);
+    if (glider) return glider.at === null || parsePointLiteral(glider.at.trim()) ? [] : extractVariables(glider.at);
+
+    const { body, range } = splitParameterRange(expr);
+    const normalized = normalizeExpression(body);
+    // Geometry only takes sliders from the expressions it is built from, e.g. circle((0, 0), a).
+    const geometry = parseGeometry(normalized);
+    if (geometry) return getGeometryVariables(geometry);
 
     // Handle equations (implicit/polar) by parsing right side or both sides
-    const cleanExpr = normalized.replace(/^(y|r)\s*=\s*/, '').replace('=', '-');
-    
-    const node = parse(cleanExpr);
+    const type = detectFunctionType(body);
+    let cleanExpr = normalized.replace(/^(y|r)\s*=\s*/, '');
+    if (type === 'implicit') {
+      cleanExpr = cleanExpr.replace('=', '-');
+    }
+    // Parametric tuples are not valid mathjs syntax, parse them as a two-element matrix
+    if (type === 'parametric') {
+      cleanExpr = `[${cleanExpr.trim().slice(1, -1)}]`;
+    } else if (type === 'inequality') {
+      cleanExpr = `[${splitInequalityConditions(normalized).join(', ')}]`;
+    }
+
+    const nodes = [parse(cleanExpr)];
+    if (range) {
+      nodes.push(parse(normalizeExpression(range.min)), parse(normalizeExpression(range.max)));
+    }
     const variables = new Set<string>();
+    // Names assigned inside a script are locals, not parameters.
+    const assigned = new Set<string>();
+    nodes.forEach((root) => root.traverse((node: any) => {
+      if (node.isAssignmentNode && node.object?.isSymbolNode) assigned.add(node.object.name);
+      if (node.isFunctionAssignmentNode) node.params.forEach((param: string) => assigned.add(param));
+    }));
     
-    node.traverse((node: any, _path: string, parent: any) => {
+    nodes.forEach((root) => root.traverse((node: any, _path: string, parent: any) => {
       if (node.isSymbolNode) {
+        if (assigned.has(node.name)) return;
         const name = node.name;
         // Skip symbols used as function identifiers, e.g. "mod" in mod(x, 2)
         if (parent?.isFunctionNode && parent.fn === node) {
           return;
         }
+        // Named functions from the list are not sliders, even where they appear without a call.
+        if (functionDefinitions[name]) return;
+        // Nor are names of geometry, including the points of a shape whose points are not defined yet.
+        if (namedGeometry[name] || isGeometryPointArgument(node, parent)) return;
         // Filter out standard variables and constants
         if (!['x', 'y', 't', 'theta', 'r', 'pi', 'e', 'phi', 'tau', 'Infinity', 'sqrt', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'log', 'exp', 'abs', 'max', 'min', 'sign', 'mod', 'time'].includes(name)) {
           variables.add(name);
         }
       }
-    });
+    }));
     
     return Array.from(variables);
   } catch (e) {
@@ -124,95 +801,501 @@ export function extractVariables(expr: string): string[] {
   }
 }
 
+// Explicit functions differentiate in x. Parametric curves give their hodograph (x'(t), y'(t))
+// and polar curves r = dr/dtheta, both keeping the parameter range.
 export function getDerivative(expr: string, variable: string = 'x'): string | null {
   try {
-    const normalized = normalizeExpression(expr);
-    // Only work for explicit functions
-    if (detectFunctionType(expr) !== 'explicit') return null;
-    
-    // Parse and differentiate
-    const node = parse(normalized);
-    const deriv = derivative(node, variable);
-    return deriv.toString();
+    const type = detectFunctionType(expr);
+    if (type === 'explicit') {
+      return derivative(parse(normalizeExpression(expr)), variable).toString();
+    }
+
+    const { body } = splitParameterRange(expr);
+    const suffix = expr.slice(body.length);
+    const normalized = normalizeExpression(body);
+    if (type === 'parametric') {
+      const parts = splitTopLevelArguments(normalized.trim().slice(1, -1));
+      if (parts.length !== 2) return null;
+      return `(${derivative(parts[0], 't')}, ${derivative(parts[1], 't')})${suffix}`;
+    }
+    if (type === 'polar') {
+      return `r = ${derivative(normalized.replace(/^\s*r\s*=\s*/i, ''), 'theta')}${suffix}`;
+    }
+    return null;
   } catch (e) {
     return null;
   }
 }
 
-export function parseGeometry(expr: string): Geometry | null {
-  const normalizedExpr = normalizeExpression(expr);
-  
-  // Match (x, y) pattern, allowing for decimals and negative numbers
-  const pointRegex = /\(\s*(-?\d*\.?\d+(?:e[+-]?\d+)?)\s*,\s*(-?\d*\.?\d+(?:e[+-]?\d+)?)\s*\)/gi;
-  
-  const matches = [...normalizedExpr.matchAll(pointRegex)];
-  
-  if (matches.length === 0) {
+function parsePointLiteral(text: string): PlotPoint | null {
+  const match = text.match(POINT_LITERAL_REGEX);
+  return match ? { x: parseFloat(match[1]), y: parseFloat(match[2]) } : null;
+}
+
+// An expression a shape is built from; NaN while it cannot be evaluated, e.g. before its slider exists.
+function evaluateGeometryArgument(arg: string, parameters: Record<string, number>, tables: SymbolTables): number | null {
+  let compiled: any;
+  try {
+    compiled = getCompiledExpression(normalizeExpression(arg, tables));
+  } catch (e) {
     return null;
   }
+  try {
+    const value = compiled.evaluate({ ...parameters });
+    return typeof value === 'number' ? value : NaN;
+  } catch (e) {
+    return NaN;
+  }
+}
 
-  const points = matches.map(match => ({
-    x: parseFloat(match[1]),
-    y: parseFloat(match[2])
-  }));
+// A defining point: a number pair, the name of a point, or a pair of expressions, e.g. (a, 2 * a).
+function resolvePointArgument(arg: string, parameters: Record<string, number>, tables: SymbolTables): PlotPoint | null {
+  const literal = parsePointLiteral(arg);
+  if (literal) return literal;
+  if (IDENTIFIER_REGEX.test(arg)) {
+    const geometry = tables.geometry[arg];
+    return geometry?.type === 'point' ? geometry.points[0] : null;
+  }
+  const parts = getPointArgumentParts(arg);
+  if (!parts) return null;
+  const [x, y] = parts.map((part) => evaluateGeometryArgument(part, parameters, tables));
+  return x === null || y === null ? null : { x, y };
+}
+
+function getPointArgumentParts(arg: string): string[] | null {
+  if (!arg.startsWith('(') || findClosingParen(arg, 0) !== arg.length - 1) return null;
+  const parts = splitTopLevelArguments(arg.slice(1, -1));
+  return parts.length === 2 ? parts : null;
+}
+
+// Constructors such as segment((0, 0), (1, 2)), segment(A, B) or circle((0, 0), a), where A
+// and B are named points. Bare tuples keep their older meaning: one is a point, two a segment
+// and more a closed polygon; they take numbers only, as tuples of expressions are curves.
+export function parseGeometry(
+  expr: string,
+  parameters: Record<string, number> = {},
+  tables: SymbolTables = getInstalledTables()
+): Geometry | null {
+  const named = normalizeNotation(expr).trim().match(NAMED_GEOMETRY_REGEX);
+  if (named && !RESERVED_FUNCTION_NAMES.has(named[1])) {
+    const geometry = parseGeometry(named[2], parameters, tables);
+    return geometry && !geometry.name ? { ...geometry, name: named[1] } : null;
+  }
 
-  if (points.length === 1) {
-    return { type: 'point', points };
+  const constructor = normalizeNotation(expr).trim().match(GEOMETRY_CONSTRUCTOR_REGEX);
+
+  if (constructor) {
+    const type = constructor[1] as Exclude<GeometryType, 'point'>;
+    const args = splitTopLevelArguments(constructor[2]);
+    // Handles stay draggable as long as every argument is a number.
+    const written = type === 'circle'
+      ? !parsePointLiteral(args[0] ?? '') || !NUMBER_LITERAL_REGEX.test(args[1] ?? '')
+      : args.some((arg) => !parsePointLiteral(arg));
+    const kept = written ? { args } : {};
+
+    if (type === 'circle') {
+      const center = args.length === 2 ? resolvePointArgument(args[0], parameters, tables) : null;
+      if (!center) return null;
+      const literal = NUMBER_LITERAL_REGEX.test(args[1]);
+      const radius = literal ? parseFloat(args[1]) : evaluateGeometryArgument(args[1], parameters, tables);
+      if (radius === null || (literal && radius < 0)) return null;
+      return { type, points: [center], radius: radius >= 0 ? radius : NaN, ...kept };
+    }
+
+    const points = args.map((arg) => resolvePointArgument(arg, parameters, tables));
+    const [min, max] = GEOMETRY_POINT_COUNTS[type];
+    if (points.length < min || points.length > max) return null;
+    if (points.some((p) => p === null)) return null;
+    return { type, points: points as PlotPoint[], ...kept };
   }
 
-  return { type: 'polygon', points };
+  const normalizedExpr = normalizeExpression(expr, tables).trim();
+  const points = splitTopLevelArguments(normalizedExpr).map(parsePointLiteral);
+  if (points.some((p) => p === null)) return null;
+  const type = points.length === 1 ? 'point' : points.length === 2 ? 'segment' : 'polygon';
+  return { type, points: points as PlotPoint[] };
 }
 
 export function formatGeometry(geometry: Geometry): string {
-  return geometry.points
-    .map(p => `(${Number(p.x).toFixed(2)}, ${Number(p.y).toFixed(2)})`)
-    .join(', ');
+  const points = geometry.points.map((p, index) => (
+    isGeometryHandleDraggable(geometry, index) ? `(${Number(p.x).toFixed(2)}, ${Number(p.y).toFixed(2)})` : geometry.args![index]
+  ));
+  const prefix = geometry.name ? `${geometry.name} = ` : '';
+  if (geometry.type === 'point') return prefix + points[0];
+  if (geometry.type === 'circle') {
+    const radius = isGeometryHandleDraggable(geometry, 1) ? Number(geometry.radius ?? 0).toFixed(2) : geometry.args![1];
+    return `${prefix}circle(${points[0]}, ${radius})`;
+  }
+  return `${prefix}${geometry.type}(${points.join(', ')})`;
 }
 
-export interface NiceTickData {
-  ticks: number[];
-  step: number;
+// Only handles written as numbers can be dragged; a named point or an expression stays as written.
+export function isGeometryHandleDraggable(geometry: Geometry, index: number): boolean {
+  if (!geometry.args) return true;
+  if (geometry.type === 'circle' && index === 1) return NUMBER_LITERAL_REGEX.test(geometry.args[1]);
+  return parsePointLiteral(geometry.args[index]) !== null;
 }
 
-function computeNiceStep(roughStep: number): number {
-  const safeRoughStep = Math.max(Math.abs(roughStep), 1e-12);
-  const magnitude = Math.pow(10, Math.floor(Math.log10(safeRoughStep)));
-  const normalizedStep = safeRoughStep / magnitude;
+// Sliders of the expressions a shape is built from; named points are not sliders.
+function getGeometryVariables(geometry: Geometry): string[] {
+  if (!geometry.args) return [];
+  const expressions = geometry.args.flatMap((arg, index) => {
+    if (geometry.type === 'circle' && index === 1) return NUMBER_LITERAL_REGEX.test(arg) ? [] : [arg];
+    if (parsePointLiteral(arg) || IDENTIFIER_REGEX.test(arg)) return [];
+    return getPointArgumentParts(arg) ?? [];
+  });
+  return Array.from(new Set(expressions.flatMap((arg) => extractVariables(arg))));
+}
 
-  if (normalizedStep < 1.5) return 1 * magnitude;
-  if (normalizedStep < 3) return 2 * magnitude;
-  if (normalizedStep < 7.5) return 5 * magnitude;
-  return 10 * magnitude;
+// A bare name given as a point of a constructor, e.g. A in segment(A, B).
+function isGeometryPointArgument(node: any, parent: any): boolean {
+  if (!parent?.isFunctionNode || !GEOMETRY_CONSTRUCTOR_REGEX.test(`${parent.fn?.name}()`)) return false;
+  return !(parent.fn.name === 'circle' && parent.args[1] === node);
 }
 
-export function getNiceTickData(
-  min: number,
-  max: number,
-  count: number = 10,
-  preferredStep?: number
-): NiceTickData {
-  if (!isFinite(min) || !isFinite(max) || min === max) {
-    return { ticks: [min], step: 1 };
-  }
+// The name an item gives its geometry, even while the points it is built on are not placed yet.
+function getClaimedGeometryName(expr: string): string | null {
+  const glider = parseGlider(expr);
+  if (glider) return glider.name ?? null;
+  const named = normalizeNotation(expr).trim().match(NAMED_GEOMETRY_REGEX);
+  if (!named || RESERVED_FUNCTION_NAMES.has(named[1])) return null;
+  const body = named[2].trim();
+  return GEOMETRY_CONSTRUCTOR_REGEX.test(body) || parseGeometry(body, {}, { definitions: {}, geometry: {} }) ? named[1] : null;
+}
 
-  const safeCount = Math.max(2, Math.floor(count));
-  const range = max - min;
-  const roughStep = Math.abs(range) / (safeCount - 1);
-  const baseStep = computeNiceStep(roughStep);
+// Named geometry of the list; the first item wins when a name is used twice. Shapes can be
+// built on named points and gliders can move on curves that use other points, so items are
+// placed in passes against the table so far until a pass places nothing new. Nothing is
+// installed here.
+export function buildNamedGeometry(
+  items: { expr: string }[],
+  definitions: FunctionDefinitions,
+  parameters: Record<string, number> = {}
+): NamedGeometry {
+  const claimed = new Map<string, string>();
+  items.forEach((item) => {
+    const name = getClaimedGeometryName(item.expr);
+    if (name && !claimed.has(name)) claimed.set(name, item.expr);
+  });
 
-  const buildTicksForStep = (stepValue: number): number[] => {
-    const epsilon = stepValue * 1e-9;
-    const start = Math.ceil((min - epsilon) / stepValue) * stepValue;
-    const end = Math.floor((max + epsilon) / stepValue) * stepValue;
+  const table: NamedGeometry = {};
+  let pending = Array.from(claimed);
+  while (pending.length > 0) {
+    const unplaced = pending.filter(([name, expr]) => {
+      const glider = parseGlider(expr);
+      const position = glider && resolveGlider(glider, items, parameters, { definitions, geometry: { ...table } });
+      const geometry: Geometry | null = glider
+        ? position && { type: 'point', points: [{ x: position.x, y: position.y }], name }
+        : parseGeometry(expr, parameters, { definitions, geometry: table });
+      if (geometry) table[name] = geometry;
+      return !geometry;
+    });
+    if (unplaced.length === pending.length) break;
+    pending = unplaced;
+  }
+  return table;
+}
 
-    const ticks: number[] = [];
-    for (let t = start; t <= end + stepValue / 1000; t += stepValue) {
-      const roundedTick = Math.round(t / stepValue) * stepValue;
-      const snapped = Math.abs(roundedTick) < 1e-12 ? 0 : roundedTick;
-      ticks.push(Number(snapped.toPrecision(12)));
-    }
-    return ticks;
-  };
+export function measurePolygon(points: PlotPoint[]): PolygonMeasurements {
+  const n = points.length;
+  const sides: number[] = [];
+  let twiceArea = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < n; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    const cross = a.x * b.y - b.x * a.y;
+    sides.push(Math.hypot(b.x - a.x, b.y - a.y));
+    twiceArea += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+
+  const signedArea = twiceArea / 2;
+  // The angle turned from the next edge to the previous one, measured on the inside.
+  const angles = points.map((v, i) => {
+    const prev = points[(i + n - 1) % n];
+    const next = points[(i + 1) % n];
+    const ax = prev.x - v.x;
+    const ay = prev.y - v.y;
+    const bx = next.x - v.x;
+    const by = next.y - v.y;
+    const turn = Math.atan2(bx * ay - by * ax, bx * ax + by * ay);
+    const ccw = turn < 0 ? turn + 2 * Math.PI : turn;
+    return signedArea < 0 ? 2 * Math.PI - ccw : ccw;
+  });
+
+  // A degenerate polygon has no area to weigh, so fall back to the mean vertex.
+  const centroid = Math.abs(signedArea) > 1e-12
+    ? { x: cx / (6 * signedArea), y: cy / (6 * signedArea) }
+    : { x: points.reduce((sum, p) => sum + p.x, 0) / n, y: points.reduce((sum, p) => sum + p.y, 0) / n };
+
+  return { sides, angles, signedArea, perimeter: sides.reduce((sum, side) => sum + side, 0), centroid };
+}
+
+function measureGeometry(measure: string, geometry: Geometry | undefined, other?: Geometry): number | null {
+  if (!geometry) return null;
+  const { type, points } = geometry;
+
+  if (measure === 'distance') {
+    if (type !== 'point' || other?.type !== 'point') return null;
+    return Math.hypot(other.points[0].x - points[0].x, other.points[0].y - points[0].y);
+  }
+  if (other) return null;
+
+  if (type === 'circle') {
+    const radius = geometry.radius ?? 0;
+    if (measure === 'area') return Math.PI * radius * radius;
+    if (measure === 'perimeter') return 2 * Math.PI * radius;
+    return measure === 'centroidX' ? points[0].x : points[0].y;
+  }
+  if (type === 'polygon') {
+    const measured = measurePolygon(points);
+    if (measure === 'area') return measured.signedArea;
+    if (measure === 'perimeter') return measured.perimeter;
+    return measure === 'centroidX' ? measured.centroid.x : measured.centroid.y;
+  }
+  // Open shapes have a length but no area.
+  if (measure === 'perimeter' && (type === 'segment' || type === 'polyline' || type === 'vector')) {
+    return points.slice(1).reduce((sum, p, i) => sum + Math.hypot(p.x - points[i].x, p.y - points[i].y), 0);
+  }
+  if ((measure === 'centroidX' || measure === 'centroidY') && type === 'point') {
+    return measure === 'centroidX' ? points[0].x : points[0].y;
+  }
+  return null;
+}
+
+// Draggable points: the defining points, plus one on the rim of a circle for its radius.
+export function getGeometryHandles(geometry: Geometry): PlotPoint[] {
+  if (geometry.type !== 'circle') return geometry.points;
+  const center = geometry.points[0];
+  return [center, { x: center.x + (geometry.radius ?? 0), y: center.y }];
+}
+
+export function moveGeometryHandle(geometry: Geometry, index: number, to: PlotPoint): Geometry {
+  if (!isGeometryHandleDraggable(geometry, index)) return geometry;
+  if (geometry.type === 'circle' && index === 1) {
+    const center = geometry.points[0];
+    return { ...geometry, radius: Math.hypot(to.x - center.x, to.y - center.y) };
+  }
+  const points = [...geometry.points];
+  points[index] = to;
+  return { ...geometry, points };
+}
+
+export function parseGlider(expr: string): Glider | null {
+  const match = normalizeNotation(expr).trim().match(GLIDER_REGEX);
+  if (!match || (match[1] && RESERVED_FUNCTION_NAMES.has(match[1]))) return null;
+  return { ...(match[1] ? { name: match[1] } : {}), curve: match[2], at: match[3] ?? null };
+}
+
+export function formatGlider(glider: Glider, at: string): string {
+  return `${glider.name ? `${glider.name} = ` : ''}point on ${glider.curve} at ${at}`;
+}
+
+// The expression of the curve a glider names: a curve named in the list, else a named function.
+export function findGliderCurve(
+  name: string,
+  items: { expr: string }[],
+  definitions: FunctionDefinitions = functionDefinitions
+): string | null {
+  const item = items.find((candidate) => (
+    parseCurveName(splitParameterRange(candidate.expr).body)?.name === name && !parseGeometry(candidate.expr)
+  ));
+  if (item) return item.expr;
+  return definitions[name]?.params.length === 1 ? `${name}(x)` : null;
+}
+
+type GliderCurve =
+  | { kind: 'parameter'; explicit: boolean; min: number; max: number; at: (s: number) => PlotPoint | null }
+  | { kind: 'implicit'; value: (p: PlotPoint) => number };
+
+function getGliderCurve(expr: string, parameters: Record<string, number>, tables: SymbolTables): GliderCurve | null {
+  const type = detectFunctionType(expr, tables);
+  const { body, range } = splitParameterRange(expr);
+  try {
+    const normalized = normalizeExpression(body, tables);
+    if (type === 'explicit') {
+      const compiled = getCompiledExpression(normalized);
+      const at = (x: number) => {
+        const y = evaluateExplicit(compiled, { ...parameters, x }, x);
+        return y === null ? null : { x, y };
+      };
+      return { kind: 'parameter', explicit: true, min: -Infinity, max: Infinity, at };
+    }
+    if (type === 'parametric' || type === 'polar') {
+      const curve = getCurveParametrisation(type, normalized, range, parameters);
+      return curve && { kind: 'parameter', explicit: false, min: curve.min, max: curve.max, at: getFinitePointEvaluator(curve) };
+    }
+    if (type === 'implicit') {
+      const [lhs, rhs] = normalized.split('=');
+      const compiled = getCompiledExpression(`${lhs} - (${rhs})`);
+      const value = (p: PlotPoint) => {
+        try {
+          const result = compiled.evaluate({ ...parameters, x: p.x, y: p.y });
+          return typeof result === 'number' ? result : NaN;
+        } catch {
+          return NaN;
+        }
+      };
+      return { kind: 'implicit', value };
+    }
+  } catch {
+    // Mid-edit curves place no glider.
+  }
+  return null;
+}
+
+// Samples the parameter range for the closest point, then narrows in on it by golden-section search.
+function findNearestParameter(at: (s: number) => PlotPoint | null, min: number, max: number, target: PlotPoint): number | null {
+  const distance = (s: number) => {
+    const p = at(s);
+    return p ? Math.hypot(p.x - target.x, p.y - target.y) : Infinity;
+  };
+  const step = (max - min) / GLIDER_SEARCH_STEPS;
+  let best: number | null = null;
+  let bestDistance = Infinity;
+  for (let i = 0; i <= GLIDER_SEARCH_STEPS; i++) {
+    const s = min + i * step;
+    const d = distance(s);
+    if (d < bestDistance) {
+      best = s;
+      bestDistance = d;
+    }
+  }
+  if (best === null) return null;
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let lo = Math.max(min, best - step);
+  let hi = Math.min(max, best + step);
+  for (let i = 0; i < GLIDER_REFINE_ITERATIONS; i++) {
+    const a = hi - ratio * (hi - lo);
+    const b = lo + ratio * (hi - lo);
+    if (distance(a) < distance(b)) hi = b;
+    else lo = a;
+  }
+  const refined = (lo + hi) / 2;
+  return distance(refined) <= bestDistance ? refined : best;
+}
+
+// Newton steps along the gradient onto the zero set of an implicit curve.
+function projectOntoLevelSet(value: (p: PlotPoint) => number, start: PlotPoint): PlotPoint | null {
+  let { x, y } = start;
+  for (let i = 0; i < GLIDER_REFINE_ITERATIONS; i++) {
+    const v = value({ x, y });
+    if (!isFinite(v)) return null;
+    if (Math.abs(v) < 1e-12) break;
+    const h = 1e-6 * Math.max(1, Math.abs(x), Math.abs(y));
+    const gx = (value({ x: x + h, y }) - value({ x: x - h, y })) / (2 * h);
+    const gy = (value({ x, y: y + h }) - value({ x, y: y - h })) / (2 * h);
+    const norm = gx * gx + gy * gy;
+    if (!(norm > 0) || !isFinite(norm)) return null;
+    x -= (v * gx) / norm;
+    y -= (v * gy) / norm;
+  }
+  return Math.abs(value({ x, y })) < 1e-6 ? { x, y } : null;
+}
+
+function projectOntoGliderCurve(curve: GliderCurve, point: PlotPoint): GliderPosition | null {
+  if (curve.kind === 'implicit') {
+    const snapped = projectOntoLevelSet(curve.value, point);
+    return snapped && { ...snapped, parameter: null };
+  }
+  // A graph is followed straight up or down, so the point stays under the cursor.
+  const parameter = curve.explicit ? point.x : findNearestParameter(curve.at, curve.min, curve.max, point);
+  const p = parameter === null ? null : curve.at(parameter);
+  return p && parameter !== null ? { ...p, parameter } : null;
+}
+
+// The point on the glider's curve closest to `point`, used while dragging.
+export function projectGlider(
+  glider: Glider,
+  items: { expr: string }[],
+  point: PlotPoint,
+  parameters: Record<string, number> = {},
+  tables: SymbolTables = getInstalledTables()
+): GliderPosition | null {
+  const expr = findGliderCurve(glider.curve, items, tables.definitions);
+  const curve = expr && getGliderCurve(expr, parameters, tables);
+  return curve ? projectOntoGliderCurve(curve, point) : null;
+}
+
+// Without `at` a glider starts at parameter 0, clamped to the curve's range.
+export function resolveGlider(
+  glider: Glider,
+  items: { expr: string }[],
+  parameters: Record<string, number> = {},
+  tables: SymbolTables = getInstalledTables()
+): GliderPosition | null {
+  const at = glider.at?.trim() ?? null;
+  const point = at === null ? null : parsePointLiteral(at);
+  if (point) return projectGlider(glider, items, point, parameters, tables);
+
+  const expr = findGliderCurve(glider.curve, items, tables.definitions);
+  const curve = expr && getGliderCurve(expr, parameters, tables);
+  if (!curve) return null;
+  if (curve.kind === 'implicit') return projectOntoGliderCurve(curve, GLIDER_IMPLICIT_START);
+
+  let parameter = 0;
+  if (at !== null) {
+    try {
+      parameter = getCompiledExpression(normalizeExpression(at, tables)).evaluate({ ...parameters });
+    } catch {
+      return null;
+    }
+    if (typeof parameter !== 'number' || !isFinite(parameter)) return null;
+  }
+  parameter = Math.min(curve.max, Math.max(curve.min, parameter));
+  const p = curve.at(parameter);
+  return p && { ...p, parameter };
+}
+
+export interface NiceTickData {
+  ticks: number[];
+  step: number;
+}
+
+function computeNiceStep(roughStep: number): number {
+  const safeRoughStep = Math.max(Math.abs(roughStep), 1e-12);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(safeRoughStep)));
+  const normalizedStep = safeRoughStep / magnitude;
+
+  if (normalizedStep < 1.5) return 1 * magnitude;
+  if (normalizedStep < 3) return 2 * magnitude;
+  if (normalizedStep < 7.5) return 5 * magnitude;
+  return 10 * magnitude;
+}
+
+export function getNiceTickData(
+  min: number,
+  max: number,
+  count: number = 10,
+  preferredStep?: number
+): NiceTickData {
+  if (!isFinite(min) || !isFinite(max) || min === max) {
+    return { ticks: [min], step: 1 };
+  }
+
+  const safeCount = Math.max(2, Math.floor(count));
+  const range = max - min;
+  const roughStep = Math.abs(range) / (safeCount - 1);
+  const baseStep = computeNiceStep(roughStep);
+
+  const buildTicksForStep = (stepValue: number): number[] => {
+    const epsilon = stepValue * 1e-9;
+    const start = Math.ceil((min - epsilon) / stepValue) * stepValue;
+    const end = Math.floor((max + epsilon) / stepValue) * stepValue;
+
+    const ticks: number[] = [];
+    for (let t = start; t <= end + stepValue / 1000; t += stepValue) {
+      const roundedTick = Math.round(t / stepValue) * stepValue;
+      const snapped = Math.abs(roundedTick) < 1e-12 ? 0 : roundedTick;
+      ticks.push(Number(snapped.toPrecision(12)));
+    }
+    return ticks;
+  };
 
   let step = baseStep;
   let ticks = buildTicksForStep(step);
@@ -422,6 +1505,46 @@ function refineRootBisection(
   return (a + b) / 2;
 }
 
+// Scan g on a uniform grid and bisect every sign change (exact zeros are kept as-is).
+function bracketRoots(
+  g: (v: number) => number,
+  min: number,
+  max: number,
+  sampleCount: number
+): number[] {
+  const rootDetectEps = 1e-10;
+  const roots: number[] = [];
+  const step = (max - min) / sampleCount;
+  let prev = min;
+  let prevV = g(prev);
+
+  for (let i = 1; i <= sampleCount; i++) {
+    const current = i === sampleCount ? max : min + i * step;
+    const currentV = g(current);
+    if (!isFinite(prevV) || !isFinite(currentV)) {
+      prev = current;
+      prevV = currentV;
+      continue;
+    }
+
+    if (Math.abs(prevV) <= rootDetectEps) {
+      roots.push(prev);
+    }
+    if (Math.abs(currentV) <= rootDetectEps) {
+      roots.push(current);
+    } else if (prevV * currentV < 0) {
+      const root = refineRootBisection(g, prev, current);
+      if (root !== null) roots.push(root);
+    }
+
+    prev = current;
+    prevV = currentV;
+  }
+
+  const tolerance = Math.max(1e-8, Math.abs(max - min) * 1e-5);
+  return dedupeSortedRoots(roots, tolerance);
+}
+
 function findAxisAnchorPoints(
   f: (x: number, y: number) => number,
   xDomain: [number, number],
@@ -432,74 +1555,13 @@ function findAxisAnchorPoints(
   const anchors: PlotPoint[] = [];
   const [xMin, xMax] = xDomain;
   const [yMin, yMax] = yDomain;
-  const rootDetectEps = 1e-10;
-  const xRoots: number[] = [];
-  const yRoots: number[] = [];
 
   if (yMin <= 0 && yMax >= 0) {
-    const sampleCount = Math.max(32, xSamples);
-    const step = (xMax - xMin) / sampleCount;
-    let prevX = xMin;
-    let prevV = f(prevX, 0);
-
-    for (let i = 1; i <= sampleCount; i++) {
-      const currentX = i === sampleCount ? xMax : xMin + i * step;
-      const currentV = f(currentX, 0);
-      if (!isFinite(prevV) || !isFinite(currentV)) {
-        prevX = currentX;
-        prevV = currentV;
-        continue;
-      }
-
-      if (Math.abs(prevV) <= rootDetectEps) {
-        xRoots.push(prevX);
-      }
-      if (Math.abs(currentV) <= rootDetectEps) {
-        xRoots.push(currentX);
-      } else if (prevV * currentV < 0) {
-        const root = refineRootBisection((x) => f(x, 0), prevX, currentX);
-        if (root !== null) xRoots.push(root);
-      }
-
-      prevX = currentX;
-      prevV = currentV;
-    }
-
-    const tolerance = Math.max(1e-8, Math.abs(xMax - xMin) * 1e-5);
-    dedupeSortedRoots(xRoots, tolerance).forEach((x) => anchors.push({ x, y: 0 }));
+    bracketRoots((x) => f(x, 0), xMin, xMax, Math.max(32, xSamples)).forEach((x) => anchors.push({ x, y: 0 }));
   }
 
   if (xMin <= 0 && xMax >= 0) {
-    const sampleCount = Math.max(32, ySamples);
-    const step = (yMax - yMin) / sampleCount;
-    let prevY = yMin;
-    let prevV = f(0, prevY);
-
-    for (let i = 1; i <= sampleCount; i++) {
-      const currentY = i === sampleCount ? yMax : yMin + i * step;
-      const currentV = f(0, currentY);
-      if (!isFinite(prevV) || !isFinite(currentV)) {
-        prevY = currentY;
-        prevV = currentV;
-        continue;
-      }
-
-      if (Math.abs(prevV) <= rootDetectEps) {
-        yRoots.push(prevY);
-      }
-      if (Math.abs(currentV) <= rootDetectEps) {
-        yRoots.push(currentY);
-      } else if (prevV * currentV < 0) {
-        const root = refineRootBisection((y) => f(0, y), prevY, currentY);
-        if (root !== null) yRoots.push(root);
-      }
-
-      prevY = currentY;
-      prevV = currentV;
-    }
-
-    const tolerance = Math.max(1e-8, Math.abs(yMax - yMin) * 1e-5);
-    dedupeSortedRoots(yRoots, tolerance).forEach((y) => anchors.push({ x: 0, y }));
+    bracketRoots((y) => f(0, y), yMin, yMax, Math.max(32, ySamples)).forEach((y) => anchors.push({ x: 0, y }));
   }
 
   return anchors;
@@ -542,15 +1604,23 @@ function snapPolylinesToAnchors(
   return result;
 }
 
-// Marching Squares Implementation for Implicit Plots
-function marchSquares(
+interface SignGrid {
+  values: number[][];
+  xMin: number;
+  yMin: number;
+  dx: number;
+  dy: number;
+  xResolution: number;
+  yResolution: number;
+}
+
+function evaluateSignGrid(
   f: (x: number, y: number) => number,
   xMin: number, xMax: number,
   yMin: number, yMax: number,
   xResolution: number = 150,
   yResolution: number = xResolution
-): { x: number; y: number }[][] {
-  const segments: { x: number; y: number }[][] = [];
+): SignGrid {
   const safeXResolution = Math.max(2, Math.floor(xResolution));
   const safeYResolution = Math.max(2, Math.floor(yResolution));
   const dx = (xMax - xMin) / safeXResolution;
@@ -568,6 +1638,26 @@ function marchSquares(
     }
   }
 
+  return { values: grid, xMin, yMin, dx, dy, xResolution: safeXResolution, yResolution: safeYResolution };
+}
+
+// Marching Squares Implementation for Implicit Plots
+function marchSquares(
+  f: (x: number, y: number) => number,
+  xMin: number, xMax: number,
+  yMin: number, yMax: number,
+  xResolution: number = 150,
+  yResolution: number = xResolution
+): { x: number; y: number }[][] {
+  return marchSignGrid(evaluateSignGrid(f, xMin, xMax, yMin, yMax, xResolution, yResolution));
+}
+
+function marchSignGrid(signGrid: SignGrid): { x: number; y: number }[][] {
+  const segments: { x: number; y: number }[][] = [];
+  const { values: grid, xMin, yMin, dx, dy } = signGrid;
+  const safeXResolution = signGrid.xResolution;
+  const safeYResolution = signGrid.yResolution;
+
   // Fixed epsilon avoids contour drift across zoom levels/domains.
   const zeroEpsilon = 1e-12;
   const signBit = (value: number) => value > zeroEpsilon ? 1 : 0;
@@ -688,8 +1778,350 @@ function marchSquares(
   return segments;
 }
 
+interface CurveParametrisation {
+  // Coordinates may be non-finite (or throw) where the expression is undefined.
+  at: (s: number) => PlotPoint;
+  min: number;
+  max: number;
+  steps: number;
+}
+
+function getCurveParametrisation(
+  type: FunctionType,
+  normalized: string,
+  range: ParameterRange | null,
+  parameters: Record<string, number>
+): CurveParametrisation | null {
+  if (type === 'parametric') {
+    // Expect (x(t), y(t))
+    const parts = splitTopLevelArguments(normalized.trim().slice(1, -1));
+    if (parts.length !== 2) return null;
+
+    const xCode = getCompiledExpression(parts[0]);
+    const yCode = getCompiledExpression(parts[1]);
+    const scope: Record<string, number> = { ...parameters, t: 0 };
+
+    // Defaults to [-10, 10] unless the expression carries a {min <= t <= max} suffix
+    const [min, max] = resolveParameterRange(range, 't', parameters);
+    return {
+      min,
+      max,
+      steps: getParameterSteps('t', min, max),
+      at: (t) => {
+        scope.t = t;
+        return { x: xCode.evaluate(scope), y: yCode.evaluate(scope) };
+      }
+    };
+  }
+
+  if (type === 'polar') {
+    // Expect r = f(theta)
+    const rhs = normalized.replace(/^\s*r\s*=\s*/i, '');
+    const rCode = getCompiledExpression(rhs);
+    const scope: Record<string, number> = { ...parameters, theta: 0 };
+
+    // Defaults to [0, 2PI] unless the expression carries a {min <= theta <= max} suffix
+    const [min, max] = resolveParameterRange(range, 'theta', parameters);
+    return {
+      min,
+      max,
+      steps: getParameterSteps('theta', min, max),
+      at: (theta) => {
+        scope.theta = theta;
+        const r = rCode.evaluate(scope);
+        return { x: r * Math.cos(theta), y: r * Math.sin(theta) };
+      }
+    };
+  }
+
+  return null;
+}
+
+// Shade each grid vertex as the cell centred on it, merging vertical runs across columns.
+function buildRegionRects(
+  signGrid: SignGrid,
+  isInside: (value: number) => boolean,
+  xMax: number,
+  yMax: number
+): RegionRect[] {
+  const { values, xMin, yMin, dx, dy, xResolution, yResolution } = signGrid;
+  const rects: RegionRect[] = [];
+  let previousRuns = new Map<string, RegionRect>();
+
+  const cellLeft = (i: number) => Math.max(xMin, xMin + (i - 0.5) * dx);
+  const cellRight = (i: number) => Math.min(xMax, xMin + (i + 0.5) * dx);
+  const cellBottom = (j: number) => Math.max(yMin, yMin + (j - 0.5) * dy);
+  const cellTop = (j: number) => Math.min(yMax, yMin + (j + 0.5) * dy);
+
+  for (let i = 0; i <= xResolution; i++) {
+    const currentRuns = new Map<string, RegionRect>();
+    let runStart = -1;
+
+    for (let j = 0; j <= yResolution + 1; j++) {
+      const inside = j <= yResolution && isInside(values[i][j]);
+      if (inside && runStart < 0) {
+        runStart = j;
+      } else if (!inside && runStart >= 0) {
+        const key = `${runStart}:${j - 1}`;
+        const previous = previousRuns.get(key);
+        if (previous) {
+          previous.width = cellRight(i) - previous.x;
+          currentRuns.set(key, previous);
+        } else {
+          const bottom = cellBottom(runStart);
+          const rect = { x: cellLeft(i), y: bottom, width: cellRight(i) - cellLeft(i), height: cellTop(j - 1) - bottom };
+          rects.push(rect);
+          currentRuns.set(key, rect);
+        }
+        runStart = -1;
+      }
+    }
+
+    previousRuns = currentRuns;
+  }
+
+  return rects;
+}
+
+function toRealNumber(val: any): number {
+  if (typeof val === 'number') return val;
+  if (val && typeof val === 'object' && 're' in val) return val.re; // Extract real part of complex
+  return Number(val);
+}
+
+function getContourResolution(
+  xDomain: [number, number],
+  yDomain: [number, number]
+): { xResolution: number; yResolution: number } {
+  // IMPORTANT: marching squares quality depends on the grid spacing (dx, dy).
+  // If we keep a fixed "resolution" (cell count) while zooming, dx changes and the
+  // extracted contour can visibly change shape. Here we choose a resolution based on
+  // the current domain size, aiming for a roughly constant world-space step.
+  const absXRange = Math.abs(xDomain[1] - xDomain[0]);
+  const absYRange = Math.abs(yDomain[1] - yDomain[0]);
+
+  // Higher sampling for cusp-heavy implicit curves (heart, astroids, etc.).
+  const targetStep = 0.01;
+  const minResolution = 120;
+  const maxResolution = 900;
+  const maxCells = 300000;
+
+  let xResolution = Math.min(maxResolution, Math.max(minResolution, Math.ceil(absXRange / targetStep)));
+  let yResolution = Math.min(maxResolution, Math.max(minResolution, Math.ceil(absYRange / targetStep)));
+
+  // Bound total work per contour update to keep interaction responsive.
+  const currentCells = xResolution * yResolution;
+  if (currentCells > maxCells) {
+    const scale = Math.sqrt(maxCells / currentCells);
+    xResolution = Math.max(minResolution, Math.floor(xResolution * scale));
+    yResolution = Math.max(minResolution, Math.floor(yResolution * scale));
+  }
+
+  return { xResolution, yResolution };
+}
+
+// 7-point Gauss / 15-point Kronrod nodes on [-1, 1]; odd Kronrod nodes are the Gauss nodes.
+const KRONROD_NODES = [
+  0.991455371120812639206854697526329, 0.949107912342758524526189684047851,
+  0.864864423359769072789712788640926, 0.741531185599394439863864773280788,
+  0.586087235467691130294144845693013, 0.405845151377397166906606412076961,
+  0.207784955007898467600689403773245, 0
+];
+const KRONROD_WEIGHTS = [
+  0.022935322010529224963732008058970, 0.063092092629978553290700663189204,
+  0.104790010322250183839876322541518, 0.140653259715525918745189590510238,
+  0.169004726639267902826583426598550, 0.190350578064785409913256402421014,
+  0.204432940075298892414161999234649, 0.209482141084727828012999174891714
+];
+const GAUSS_WEIGHTS = [
+  0.129484966168869693270611432679082, 0.279705391489276667901467771423780,
+  0.381830050505118944950369775488975, 0.417959183673469387755102040816327
+];
+
+const QUADRATURE_MAX_INTERVALS = 500;
+const QUADRATURE_ABS_TOLERANCE = 1e-10;
+const QUADRATURE_REL_TOLERANCE = 1e-10;
+const INTEGRAL_REGION_SAMPLES = 240;
+const INTEGRAL_CURVE_SAMPLES = 500;
+
+interface QuadratureInterval {
+  a: number;
+  b: number;
+  value: number;
+  error: number;
+}
+
+function gaussKronrod15(f: (x: number) => number, a: number, b: number): QuadratureInterval {
+  const center = (a + b) / 2;
+  const halfLength = (b - a) / 2;
+  const fCenter = f(center);
+  let kronrod = fCenter * KRONROD_WEIGHTS[7];
+  let gauss = fCenter * GAUSS_WEIGHTS[3];
+
+  for (let i = 0; i < 7; i++) {
+    const dx = halfLength * KRONROD_NODES[i];
+    const sum = f(center - dx) + f(center + dx);
+    kronrod += KRONROD_WEIGHTS[i] * sum;
+    if (i % 2 === 1) gauss += GAUSS_WEIGHTS[(i - 1) / 2] * sum;
+  }
+
+  return {
+    a,
+    b,
+    value: kronrod * halfLength,
+    error: Math.abs((kronrod - gauss) * halfLength)
+  };
+}
+
+// Adaptive Gauss–Kronrod: repeatedly bisect the interval with the largest error estimate.
+export function integrate(
+  f: (x: number) => number,
+  a: number,
+  b: number
+): { value: number; error: number } {
+  if (!isFinite(a) || !isFinite(b)) return { value: NaN, error: NaN };
+  if (a === b) return { value: 0, error: 0 };
+  if (a > b) {
+    const flipped = integrate(f, b, a);
+    return { value: -flipped.value, error: flipped.error };
+  }
+
+  const intervals = [gaussKronrod15(f, a, b)];
+  let value = intervals[0].value;
+  let error = intervals[0].error;
+
+  while (intervals.length < QUADRATURE_MAX_INTERVALS) {
+    if (!isFinite(value)) return { value: NaN, error: NaN };
+    if (error <= Math.max(QUADRATURE_ABS_TOLERANCE, QUADRATURE_REL_TOLERANCE * Math.abs(value))) break;
+
+    let worst = 0;
+    for (let i = 1; i < intervals.length; i++) {
+      if (intervals[i].error > intervals[worst].error) worst = i;
+    }
+    const interval = intervals[worst];
+    const mid = (interval.a + interval.b) / 2;
+    if (mid <= interval.a || mid >= interval.b) break;
+
+    const left = gaussKronrod15(f, interval.a, mid);
+    const right = gaussKronrod15(f, mid, interval.b);
+    intervals.splice(worst, 1, left, right);
+    value += left.value + right.value - interval.value;
+    error += left.error + right.error - interval.error;
+  }
+
+  return isFinite(value) ? { value, error } : { value: NaN, error: NaN };
+}
+
+// Shade between the curves, split into runs where upper - lower keeps one sign.
+function buildIntegralRegions(
+  upper: (x: number) => number | null,
+  lower: (x: number) => number | null,
+  from: number,
+  to: number,
+  yDomain: [number, number]
+): IntegralRegion[] {
+  const regions: IntegralRegion[] = [];
+  const ySpan = Math.abs(yDomain[1] - yDomain[0]);
+  const clampY = (y: number) => Math.max(yDomain[0] - ySpan * 10, Math.min(yDomain[1] + ySpan * 10, y));
+  const start = Math.min(from, to);
+  const end = Math.max(from, to);
+  const step = (end - start) / INTEGRAL_REGION_SAMPLES;
+  // Region sign follows the orientation of the bounds, matching the signed value.
+  const orientation = from <= to ? 1 : -1;
+
+  let tops: PlotPoint[] = [];
+  let bottoms: PlotPoint[] = [];
+  let runSign = 0;
+
+  const flush = () => {
+    if (tops.length > 1 && runSign !== 0) {
+      regions.push({
+        sign: (runSign * orientation) as 1 | -1,
+        points: [...tops, ...bottoms.reverse()]
+      });
+    }
+    tops = [];
+    bottoms = [];
+    runSign = 0;
+  };
+
+  let previous: { x: number; u: number; l: number } | null = null;
+  for (let i = 0; i <= INTEGRAL_REGION_SAMPLES; i++) {
+    const x = i === INTEGRAL_REGION_SAMPLES ? end : start + i * step;
+    const u = upper(x);
+    const l = lower(x);
+    if (u === null || l === null) {
+      flush();
+      previous = null;
+      continue;
+    }
+
+    const sign = Math.sign(u - l);
+    if (previous && runSign !== 0 && sign !== 0 && sign !== runSign) {
+      // Close the run at the crossing and start the next one there.
+      const dPrev = previous.u - previous.l;
+      const t = dPrev / (dPrev - (u - l));
+      const cx = previous.x + t * (x - previous.x);
+      const cy = clampY(previous.u + t * (u - previous.u));
+      tops.push({ x: cx, y: cy });
+      bottoms.push({ x: cx, y: cy });
+      flush();
+      tops.push({ x: cx, y: cy });
+      bottoms.push({ x: cx, y: cy });
+    }
+    if (runSign === 0 && sign !== 0) runSign = sign;
+
+    tops.push({ x, y: clampY(u) });
+    bottoms.push({ x, y: clampY(l) });
+    previous = { x, u, l };
+  }
+  flush();
+
+  return regions;
+}
+
+function generateIntegralData(
+  spec: IntegralSpec,
+  yDomain: [number, number],
+  parameters: Record<string, number>
+): { integral: IntegralData; upper: (x: number) => number | null; lower: (x: number) => number | null } | null {
+  const compileCurve = (expr: string | null) => {
+    if (expr === null) return () => 0;
+    const compiled = getCompiledExpression(normalizeExpression(expr));
+    const scope = { ...parameters, x: 0 };
+    return (x: number) => evaluateExplicit(compiled, scope, x);
+  };
+
+  const upper = compileCurve(spec.upper);
+  const lower = compileCurve(spec.lower);
+  const from = evaluateRangeBound(spec.from, spec.from, parameters);
+  const to = evaluateRangeBound(spec.to, spec.to, parameters);
+  if (!isFinite(from) || !isFinite(to)) return null;
+
+  const { value, error } = integrate((x) => {
+    const u = upper(x);
+    const l = lower(x);
+    return u === null || l === null ? NaN : u - l;
+  }, from, to);
+
+  const handle = (x: number): PlotPoint => ({ x, y: upper(x) ?? 0 });
+
+  return {
+    integral: {
+      from,
+      to,
+      value,
+      error,
+      regions: buildIntegralRegions(upper, lower, from, to, yDomain),
+      handles: [handle(from), handle(to)]
+    },
+    upper,
+    lower
+  };
+}
+
 export function generateFunctionData(
-  func: { id: string; expr: string; visible: boolean },
+  func: { id: string; expr: string; visible: boolean; integral?: IntegralSpec },
   xDomain: [number, number],
   yDomain: [number, number],
   parameters: Record<string, number> = {}
@@ -697,99 +2129,130 @@ export function generateFunctionData(
   if (!func.visible || !func.expr.trim()) return null;
   
   const type = detectFunctionType(func.expr);
-  const normalized = normalizeExpression(func.expr);
+  const { body, range } = splitParameterRange(func.expr);
+  const normalized = normalizeExpression(body);
   
   try {
     if (type === 'explicit') {
       // Explicit functions are handled by the main generatePoints for shared X-axis
       // But we can return null here or handle it if we want isolated data
-      return { type, points: [] }; 
+      const area = func.integral ? generateIntegralData(func.integral, yDomain, parameters) : null;
+      return area ? { type, points: [], integral: area.integral } : { type, points: [] };
     }
-    
-    if (type === 'parametric') {
-      // Expect (x(t), y(t))
-      const parts = normalized.slice(1, -1).split(',');
-      if (parts.length !== 2) return null;
-      
-      const xCode = getCompiledExpression(parts[0]);
-      const yCode = getCompiledExpression(parts[1]);
-      const points: { x: number; y: number }[] = [];
-      const scope: Record<string, number> = { ...parameters, t: 0 };
-      
-      // Default t range [0, 2PI] or [-10, 10]? Let's use [-10, 10] for general coverage
-      const tMin = -10, tMax = 10, steps = 500;
-      const dt = (tMax - tMin) / steps;
-      
-      for (let i = 0; i <= steps; i++) {
-        scope.t = tMin + i * dt;
-        points.push({ x: xCode.evaluate(scope), y: yCode.evaluate(scope) });
-      }
-      return { type, points };
+
+    if (type === 'integral') {
+      const spec = parseIntegral(normalized);
+      if (!spec) return null;
+      const area = generateIntegralData(spec, yDomain, parameters);
+      if (!area) return null;
+
+      // Draw the bounding curves across the whole view, not just between the bounds.
+      const sampleCurve = (curve: (x: number) => number | null) => sampleParametrisation(
+        (x) => {
+          const y = curve(x);
+          return y === null ? null : { x, y };
+        },
+        xDomain[0],
+        xDomain[1],
+        INTEGRAL_CURVE_SAMPLES
+      ).map((line) => line.points);
+
+      const polylines = spec.lower === null
+        ? sampleCurve(area.upper)
+        : [...sampleCurve(area.upper), ...sampleCurve(area.lower)];
+
+      return { type, points: [], polylines, integral: area.integral };
     }
     
-    if (type === 'polar') {
-      // Expect r = f(theta)
-      const rhs = normalized.replace(/^\s*r\s*=\s*/i, '');
-      const rCode = getCompiledExpression(rhs);
+    if (type === 'parametric' || type === 'polar') {
+      const curve = getCurveParametrisation(type, normalized, range, parameters);
+      if (!curve) return null;
+
       const points: { x: number; y: number }[] = [];
-      const scope: Record<string, number> = { ...parameters, theta: 0 };
-      
-      // Default theta range [0, 2PI]
-      const thetaMin = 0, thetaMax = 2 * Math.PI, steps = 500;
-      const dTheta = (thetaMax - thetaMin) / steps;
-      
-      for (let i = 0; i <= steps; i++) {
-        const theta = thetaMin + i * dTheta;
-        scope.theta = theta;
-        const r = rCode.evaluate(scope);
-        points.push({ x: r * Math.cos(theta), y: r * Math.sin(theta) });
+      const ds = (curve.max - curve.min) / curve.steps;
+      for (let i = 0; i <= curve.steps; i++) {
+        points.push(curve.at(curve.min + i * ds));
       }
       return { type, points };
     }
     
-    if (type === 'implicit') {
-      // f(x, y) = c -> f(x, y) - c = 0
-      const [lhs, rhs] = normalized.split('=');
-      if (!lhs || !rhs) return null;
-      
-      const expr = `${lhs} - (${rhs})`;
-      const code = getCompiledExpression(expr);
-      const scope: Record<string, number> = { ...parameters, x: 0, y: 0 };
+    if (type === 'inequality') {
+      const conditions = parseInequality(func.expr);
+      if (!conditions) return null;
+
+      const scope: Record<string, number> = { ...parameters, x: 0, y: 0, r: 0, theta: 0 };
+      const evaluators = conditions.map((condition) => {
+        const code = getCompiledExpression(condition.expr);
+        return (x: number, y: number): number => {
+          scope.x = x;
+          scope.y = y;
+          // Allow polar regions such as r < 2 + cos(theta)
+          scope.r = Math.hypot(x, y);
+          scope.theta = Math.atan2(y, x);
+          try {
+            return toRealNumber(code.evaluate(scope));
+          } catch {
+            return NaN;
+          }
+        };
+      });
 
-      // IMPORTANT: marching squares quality depends on the grid spacing (dx, dy).
-      // If we keep a fixed "resolution" (cell count) while zooming, dx changes and the
-      // extracted contour can visibly change shape. Here we choose a resolution based on
-      // the current domain size, aiming for a roughly constant world-space step.
-      const xRange = xDomain[1] - xDomain[0];
-      const yRange = yDomain[1] - yDomain[0];
-      const absXRange = Math.abs(xRange);
-      const absYRange = Math.abs(yRange);
-
-      // Higher sampling for cusp-heavy implicit curves (heart, astroids, etc.).
-      const targetStep = 0.01;
-      const minResolution = 120;
-      const maxResolution = 900;
-      const maxCells = 300000;
-
-      let xResolution = Math.min(maxResolution, Math.max(minResolution, Math.ceil(absXRange / targetStep)));
-      let yResolution = Math.min(maxResolution, Math.max(minResolution, Math.ceil(absYRange / targetStep)));
-
-      // Bound total work per contour update to keep interaction responsive.
-      const currentCells = xResolution * yResolution;
-      if (currentCells > maxCells) {
-        const scale = Math.sqrt(maxCells / currentCells);
-        xResolution = Math.max(minResolution, Math.floor(xResolution * scale));
-        yResolution = Math.max(minResolution, Math.floor(yResolution * scale));
-      }
+      const { xResolution, yResolution } = getContourResolution(xDomain, yDomain);
+      const grids = evaluators.map((evaluate) => evaluateSignGrid(
+        evaluate,
+        xDomain[0], xDomain[1],
+        yDomain[0], yDomain[1],
+        xResolution,
+        yResolution
+      ));
+
+      // The system holds where every condition does, i.e. where the smallest one is positive.
+      const combined: SignGrid = {
+        ...grids[0],
+        values: grids[0].values.map((column, i) => column.map((_v, j) => {
+          let min = Number.POSITIVE_INFINITY;
+          for (const grid of grids) {
+            const value = grid.values[i][j];
+            if (!isFinite(value)) return NaN;
+            if (value < min) min = value;
+          }
+          return min;
+        }))
+      };
+      const region = buildRegionRects(combined, (value) => value > 0, xDomain[1], yDomain[1]);
+
+      // Each condition contributes the part of its own contour that borders the region.
+      const boundaryTolerance = 1e-9;
+      const boundaries: InequalityBoundary[] = grids.map((grid, index) => {
+        const segments = marchSignGrid(grid).filter(([p1, p2]) => {
+          const mx = (p1.x + p2.x) / 2;
+          const my = (p1.y + p2.y) / 2;
+          return evaluators.every((evaluate, other) => other === index || evaluate(mx, my) >= -boundaryTolerance);
+        });
+        return { strict: conditions[index].strict, polylines: buildPolylinesFromSegments(segments) };
+      });
+
+      return { type, points: [], boundaries, region };
+    }
+
+    if (type === 'implicit') {
+      // f(x, y) = c -> f(x, y) - c = 0
+      const [lhs, rhs] = normalized.split('=');
+      if (!lhs || !rhs) return null;
+      
+      const expr = `${lhs} - (${rhs})`;
+      const code = getCompiledExpression(expr);
+      const scope: Record<string, number> = { ...parameters, x: 0, y: 0 };
+
+      const absXRange = Math.abs(xDomain[1] - xDomain[0]);
+      const absYRange = Math.abs(yDomain[1] - yDomain[0]);
+      const { xResolution, yResolution } = getContourResolution(xDomain, yDomain);
 
       const evaluateImplicit = (x: number, y: number): number => {
         scope.x = x;
         scope.y = y;
         try {
-          const val = code.evaluate(scope);
-          if (typeof val === 'number') return val;
-          if (val && typeof val === 'object' && 're' in val) return val.re; // Extract real part of complex
-          return Number(val);
+          return toRealNumber(code.evaluate(scope));
         } catch {
           return NaN;
         }
@@ -834,15 +2297,283 @@ export function generateFunctionData(
   return null;
 }
 
-export function generatePoints(
+export interface AdaptiveSamplingOptions {
+  // Visible y range, used to measure deviation in screen space and skip off-screen refinement.
+  yDomain?: [number, number];
+  // Extra samples shared by all explicit functions for one frame.
+  budget?: number;
+  // Maximum number of halvings of a base interval.
+  maxDepth?: number;
+}
+
+export const ADAPTIVE_SAMPLE_BUDGET = 2000;
+const ADAPTIVE_MAX_DEPTH = 10;
+// Midpoint deviation from the chord, as a fraction of the visible y span (~1px on a 500px plot).
+const ADAPTIVE_CURVE_TOLERANCE = 0.002;
+
+function evaluateExplicit(compiled: any, scope: { x: number; [key: string]: number }, x: number): number | null {
+  try {
+    scope.x = x;
+    let y = compiled.evaluate(scope);
+
+    if (y && typeof y === 'object' && 'entries' in y && Array.isArray(y.entries)) {
+      y = y.entries[y.entries.length - 1];
+    }
+
+    return typeof y === 'number' && isFinite(y) ? y : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function refineExplicitSamples(
+  evaluate: (x: number) => number | null,
+  baseXs: number[],
+  samples: Map<number, number | null>,
+  yDomain: [number, number],
+  budget: number,
+  maxDepth: number
+): void {
+  const ySpan = Math.max(Math.abs(yDomain[1] - yDomain[0]), 1e-12);
+  const tolerance = ySpan * ADAPTIVE_CURVE_TOLERANCE;
+  const yLow = yDomain[0] - ySpan;
+  const yHigh = yDomain[1] + ySpan;
+
+  // Breadth-first so the budget is spread across the domain instead of exhausted on the left.
+  const queue: { a: number; b: number; depth: number }[] = [];
+  for (let i = 0; i < baseXs.length - 1; i++) {
+    queue.push({ a: baseXs[i], b: baseXs[i + 1], depth: 0 });
+  }
+
+  let remaining = budget;
+  for (let head = 0; head < queue.length && remaining > 0; head++) {
+    const { a, b, depth } = queue[head];
+    const ya = samples.get(a) ?? null;
+    const yb = samples.get(b) ?? null;
+    const m = (a + b) / 2;
+    if (m <= a || m >= b) continue;
+
+    const ym = evaluate(m);
+    remaining--;
+
+    let needsRefinement: boolean;
+    if (ya === null || yb === null || ym === null) {
+      // Domain edge (sqrt, log, ...) somewhere in the interval, narrow it down.
+      needsRefinement = !(ya === null && yb === null && ym === null);
+    } else if ((ya > yHigh && yb > yHigh && ym > yHigh) || (ya < yLow && yb < yLow && ym < yLow)) {
+      needsRefinement = false;
+    } else {
+      // Curvature and value jumps both show up as the midpoint leaving the chord.
+      needsRefinement = Math.abs(ym - (ya + yb) / 2) > tolerance;
+    }
+
+    if (!needsRefinement) continue;
+
+    samples.set(m, ym);
+    if (depth + 1 < maxDepth) {
+      queue.push({ a, b: m, depth: depth + 1 }, { a: m, b, depth: depth + 1 });
+    }
+  }
+}
+
+const MAX_DISCONTINUITY_CANDIDATES = 64;
+const DISCONTINUITY_BISECTION_ITERATIONS = 40;
+// A sample-to-sample change must exceed its neighbours by this factor to be worth bisecting.
+const DISCONTINUITY_NEIGHBOUR_RATIO = 3;
+const POLE_GROWTH_FACTOR = 10;
+const POLE_OFFSCREEN_FACTOR = 1e6;
+
+// Pick the shortest decimal inside [lo, hi] so breaks land on e.g. x = 1 rather than 0.9999999997.
+function snapInsideInterval(lo: number, hi: number): number {
+  for (let digits = 0; digits <= 12; digits++) {
+    const scale = Math.pow(10, digits);
+    const candidate = Math.round(((lo + hi) / 2) * scale) / scale;
+    if (candidate >= lo && candidate <= hi) return candidate;
+  }
+  return (lo + hi) / 2;
+}
+
+// Same bracketing idea as refineRootBisection, but keeps the half with the larger change in
+// value. Continuous functions shrink that change to nothing; poles and jumps do not.
+function classifyDiscontinuity(
+  evaluate: (x: number) => number | null,
+  a: number,
+  ya: number,
+  b: number,
+  yb: number,
+  ySpan: number
+): { discontinuity: Discontinuity; lo: number; ylo: number; hi: number; yhi: number } | null {
+  let lo = a;
+  let hi = b;
+  let ylo = ya;
+  let yhi = yb;
+
+  for (let i = 0; i < DISCONTINUITY_BISECTION_ITERATIONS; i++) {
+    let mid = (lo + hi) / 2;
+    if (mid <= lo || mid >= hi) break;
+    let ym = evaluate(mid);
+    if (ym === null) {
+      // Landed exactly on the singularity or a hole (1/x or sin(x)/x at 0), step off it.
+      mid = lo + (hi - lo) * 0.45;
+      ym = evaluate(mid);
+      if (ym === null) return null;
+    }
+
+    if (Math.abs(ym - ylo) >= Math.abs(yhi - ym)) {
+      hi = mid;
+      yhi = ym;
+    } else {
+      lo = mid;
+      ylo = ym;
+    }
+  }
+
+  const remainingJump = Math.abs(yhi - ylo);
+  if (remainingJump <= ySpan * 1e-3) return null;
+
+  // Allow a little slack so mathjs' epsilon rounding (floor, comparisons) still snaps to x = n.
+  const slack = Math.abs(b - a) * 1e-6;
+  const x = snapInsideInterval(lo - slack, hi + slack);
+  const initialMagnitude = Math.max(Math.abs(ya), Math.abs(yb), ySpan * 0.01);
+  const finalMagnitude = Math.max(Math.abs(ylo), Math.abs(yhi));
+  if (finalMagnitude > initialMagnitude * POLE_GROWTH_FACTOR || finalMagnitude > ySpan * POLE_OFFSCREEN_FACTOR) {
+    return { discontinuity: { kind: 'pole', x }, lo, ylo, hi, yhi };
+  }
+
+  const atJump = evaluate(x);
+  const filled = atJump === null
+    ? undefined
+    : Math.abs(atJump - ylo) <= Math.abs(atJump - yhi) ? 'left' : 'right';
+
+  return { discontinuity: { kind: 'jump', x, left: ylo, right: yhi, filled }, lo, ylo, hi, yhi };
+}
+
+// Even-order poles (1/x^2) never change sign, so bracket the magnitude peak by ternary search
+// instead and call it a pole if the values keep growing.
+function classifyMagnitudePeak(
+  evaluate: (x: number) => number | null,
+  a: number,
+  ya: number,
+  b: number,
+  yb: number,
+  ySpan: number
+): { discontinuity: Discontinuity; lo: number; ylo: number; hi: number; yhi: number } | null {
+  let lo = a;
+  let hi = b;
+
+  for (let i = 0; i < DISCONTINUITY_BISECTION_ITERATIONS; i++) {
+    const m1 = lo + (hi - lo) / 3;
+    const m2 = hi - (hi - lo) / 3;
+    if (m1 <= lo || m2 >= hi || m1 >= m2) break;
+    const y1 = evaluate(m1);
+    const y2 = evaluate(m2);
+    if (y1 === null || y2 === null) break;
+
+    if (Math.abs(y1) < Math.abs(y2)) {
+      lo = m1;
+    } else {
+      hi = m2;
+    }
+  }
+
+  const ylo = evaluate(lo);
+  const yhi = evaluate(hi);
+  if (ylo === null || yhi === null) return null;
+
+  const initialMagnitude = Math.max(Math.abs(ya), Math.abs(yb));
+  const finalMagnitude = Math.max(Math.abs(ylo), Math.abs(yhi));
+  if (finalMagnitude <= initialMagnitude * POLE_GROWTH_FACTOR && finalMagnitude <= ySpan * POLE_OFFSCREEN_FACTOR) {
+    return null;
+  }
+
+  const slack = Math.abs(b - a) * 1e-6;
+  return { discontinuity: { kind: 'pole', x: snapInsideInterval(lo - slack, hi + slack) }, lo, ylo, hi, yhi };
+}
+
+function findDiscontinuities(
+  evaluate: (x: number) => number | null,
+  samples: Map<number, number | null>,
+  yDomain: [number, number]
+): Discontinuity[] {
+  const ySpan = Math.max(Math.abs(yDomain[1] - yDomain[0]), 1e-12);
+  const minJump = ySpan * ADAPTIVE_CURVE_TOLERANCE * 5;
+  const yLow = yDomain[0] - ySpan;
+  const yHigh = yDomain[1] + ySpan;
+  const xs = Array.from(samples.keys()).sort((a, b) => a - b);
+  const change = (i: number): number => {
+    if (i < 0 || i >= xs.length - 1) return 0;
+    const ya = samples.get(xs[i]);
+    const yb = samples.get(xs[i + 1]);
+    return ya == null || yb == null ? 0 : Math.abs(yb - ya);
+  };
+
+  const candidates: { a: number; b: number; peak?: boolean }[] = [];
+  for (let i = 0; i < xs.length - 1 && candidates.length < MAX_DISCONTINUITY_CANDIDATES; i++) {
+    const ya = samples.get(xs[i]);
+    const yb = samples.get(xs[i + 1]);
+
+    if (ya == null && i > 0 && yb != null && samples.get(xs[i - 1]) != null) {
+      // A lone undefined sample between finite ones: a pole hit dead-on, or a removable hole.
+      candidates.push({ a: xs[i - 1], b: xs[i + 1] });
+      continue;
+    }
+    if (ya == null || yb == null) continue;
+    if ((ya > yHigh && yb > yHigh) || (ya < yLow && yb < yLow)) {
+      // Off-screen pairs only matter at a peak in magnitude, e.g. the top of 1/x^2.
+      const before = i > 0 ? samples.get(xs[i - 1]) : null;
+      const after = i + 2 < xs.length ? samples.get(xs[i + 2]) : null;
+      const isMagnitudePeak = before != null && after != null
+        && Math.min(Math.abs(ya), Math.abs(yb)) > Math.max(Math.abs(before), Math.abs(after));
+      if (isMagnitudePeak) candidates.push({ a: xs[i], b: xs[i + 1], peak: true });
+      continue;
+    }
+
+    const delta = Math.abs(yb - ya);
+    if (delta <= minJump) continue;
+
+    const signFlipAtLargeValues = ya * yb < 0 && Math.min(Math.abs(ya), Math.abs(yb)) > ySpan / 2;
+    if (signFlipAtLargeValues || delta > DISCONTINUITY_NEIGHBOUR_RATIO * Math.max(change(i - 1), change(i + 1))) {
+      candidates.push({ a: xs[i], b: xs[i + 1] });
+    }
+  }
+
+  const discontinuities: Discontinuity[] = [];
+  candidates.forEach(({ a, b, peak }) => {
+    const classify = peak ? classifyMagnitudePeak : classifyDiscontinuity;
+    const result = classify(evaluate, a, samples.get(a) as number, b, samples.get(b) as number, ySpan);
+    if (!result) return;
+
+    // Extend the curve right up to the break, then split the line with a null sample.
+    samples.set(result.lo, result.ylo);
+    samples.set(result.hi, result.yhi);
+    const breakX = (result.lo + result.hi) / 2;
+    if (breakX > result.lo && breakX < result.hi) {
+      samples.set(breakX, null);
+    }
+    discontinuities.push(result.discontinuity);
+  });
+
+  return discontinuities;
+}
+
+export interface ExplicitSeries {
+  data: DataPoint[];
+  discontinuities: Record<string, Discontinuity[]>;
+}
+
+export function generateExplicitSeries(
   expressions: { id: string; expr: string; color: string; visible: boolean }[],
   xMin: number,
   xMax: number,
   pointCount: number = 500,
-  parameters: Record<string, number> = {}
-): DataPoint[] {
+  parameters: Record<string, number> = {},
+  options: AdaptiveSamplingOptions = {}
+): ExplicitSeries {
   const step = (xMax - xMin) / (pointCount - 1);
-  const data: DataPoint[] = [];
+  const baseXs: number[] = [];
+  for (let i = 0; i < pointCount; i++) {
+    baseXs.push(xMin + i * step);
+  }
 
   // Filter for explicit functions only
   const explicitExprs = expressions.filter(e => {
@@ -862,31 +2593,989 @@ export function generatePoints(
     })
     .filter((e): e is { id: string; compiled: any; scope: { x: number; [key: string]: number } } => e !== null);
 
-  for (let i = 0; i < pointCount; i++) {
-    const x = xMin + i * step;
-    const point: DataPoint = { x };
+  const discontinuities: Record<string, Discontinuity[]> = {};
+  if (compiledExprs.length === 0) {
+    return { data: baseXs.map((x) => ({ x })), discontinuities };
+  }
 
-    compiledExprs.forEach(({ id, compiled, scope }) => {
-      try {
+  const budgetPerFunction = Math.floor((options.budget ?? ADAPTIVE_SAMPLE_BUDGET) / compiledExprs.length);
+  const maxDepth = options.maxDepth ?? ADAPTIVE_MAX_DEPTH;
+
+  const sampleMaps = compiledExprs.map(({ compiled, scope }) => {
+    const samples = new Map<number, number | null>();
+    baseXs.forEach((x) => samples.set(x, evaluateExplicit(compiled, scope, x)));
+    return samples;
+  });
+  const yDomain = options.yDomain ?? estimateYDomain(sampleMaps);
+
+  compiledExprs.forEach(({ id, compiled, scope }, index) => {
+    const evaluate = (x: number) => evaluateExplicit(compiled, scope, x);
+    refineExplicitSamples(evaluate, baseXs, sampleMaps[index], yDomain, budgetPerFunction, maxDepth);
+    discontinuities[id] = findDiscontinuities(evaluate, sampleMaps[index], yDomain);
+  });
+
+  // Recharts lines share one data array, so every function needs a value at every refined x.
+  // Where another function was refined, a function's value is interpolated between its own
+  // samples, which its refinement already found close enough to a straight line; this keeps the
+  // evaluations within the budget however many functions there are.
+  const allXs = new Set<number>(baseXs);
+  sampleMaps.forEach((samples) => samples.forEach((_y, x) => allXs.add(x)));
+  const sortedXs = Array.from(allXs).sort((a, b) => a - b);
+
+  const data: DataPoint[] = sortedXs.map((x) => ({ x }));
+  compiledExprs.forEach(({ id }, index) => {
+    const samples = sampleMaps[index];
+    const ownXs = Array.from(samples.keys()).sort((a, b) => a - b);
+    let next = 0;
+    data.forEach((point) => {
+      const { x } = point;
+      while (next < ownXs.length && ownXs[next] < x) next++;
+      if (ownXs[next] === x) {
+        point[id] = samples.get(x) ?? null;
+        return;
+      }
+      const y0 = next > 0 ? samples.get(ownXs[next - 1]) : null;
+      const y1 = next < ownXs.length ? samples.get(ownXs[next]) : null;
+      point[id] = y0 == null || y1 == null
+        ? null
+        : y0 + ((y1 - y0) * (x - ownXs[next - 1])) / (ownXs[next] - ownXs[next - 1]);
+    });
+  });
+
+  return { data, discontinuities };
+}
+
+// The y range refinement measures against when the caller gives none: the middle 90% of the
+// base samples, so a pole does not stretch it.
+function estimateYDomain(sampleMaps: Map<number, number | null>[]): [number, number] {
+  const ys: number[] = [];
+  sampleMaps.forEach((samples) => samples.forEach((y) => {
+    if (y !== null && isFinite(y)) ys.push(y);
+  }));
+  if (ys.length === 0) return [-1, 1];
+  ys.sort((a, b) => a - b);
+  const low = ys[Math.floor((ys.length - 1) * 0.05)];
+  const high = ys[Math.ceil((ys.length - 1) * 0.95)];
+  return high > low ? [low, high] : [low - 1, high + 1];
+}
+
+export function generatePoints(
+  expressions: { id: string; expr: string; color: string; visible: boolean }[],
+  xMin: number,
+  xMax: number,
+  pointCount: number = 500,
+  parameters: Record<string, number> = {},
+  options: AdaptiveSamplingOptions = {}
+): DataPoint[] {
+  return generateExplicitSeries(expressions, xMin, xMax, pointCount, parameters, options).data;
+}
+
+export type PointOfInterestKind = 'root' | 'minimum' | 'maximum' | 'intersection';
+
+export interface PointOfInterest {
+  kind: PointOfInterestKind;
+  x: number;
+  y: number;
+  functionIds: string[];
+}
+
+interface SampledPolyline {
+  points: PlotPoint[];
+  // Curve parameter at each point, when the curve has one.
+  params?: number[];
+}
+
+interface CurveModel {
+  id: string;
+  // Explicit y = f(x), used for roots and extrema.
+  explicit?: (x: number) => number | null;
+  // Maps the curve parameter (x for explicit, t or theta otherwise) to a point.
+  at?: (s: number) => PlotPoint | null;
+  // Zero set of the curve: y - f(x) for explicit curves, lhs - rhs for implicit ones.
+  zero?: (x: number, y: number) => number;
+  polylines: SampledPolyline[];
+}
+
+const POI_EXPLICIT_SAMPLES = 400;
+const POI_IMPLICIT_RESOLUTION = 160;
+const MAX_POINTS_OF_INTEREST = 200;
+const MAX_INTERSECTION_CANDIDATES = 400;
+
+function sampleParametrisation(
+  at: (s: number) => PlotPoint | null,
+  min: number,
+  max: number,
+  steps: number
+): SampledPolyline[] {
+  const polylines: SampledPolyline[] = [];
+  let current: SampledPolyline = { points: [], params: [] };
+  const ds = (max - min) / steps;
+
+  for (let i = 0; i <= steps; i++) {
+    const s = min + i * ds;
+    const point = at(s);
+    if (point) {
+      current.points.push(point);
+      current.params!.push(s);
+    } else if (current.points.length > 0) {
+      if (current.points.length > 1) polylines.push(current);
+      current = { points: [], params: [] };
+    }
+  }
+  if (current.points.length > 1) polylines.push(current);
+
+  return polylines;
+}
+
+// Complex, non-finite or throwing evaluations become gaps in the sampled curve.
+function getFinitePointEvaluator(curve: CurveParametrisation): (s: number) => PlotPoint | null {
+  return (s) => {
+    try {
+      const p = curve.at(s);
+      return typeof p.x === 'number' && typeof p.y === 'number' && isFinite(p.x) && isFinite(p.y) ? p : null;
+    } catch {
+      return null;
+    }
+  };
+}
+
+function buildCurveModel(
+  func: { id: string; expr: string; visible: boolean },
+  xDomain: [number, number],
+  yDomain: [number, number],
+  parameters: Record<string, number>
+): CurveModel | null {
+  if (!func.visible || !func.expr.trim()) return null;
+
+  const type = detectFunctionType(func.expr);
+  const { body, range } = splitParameterRange(func.expr);
+  const normalized = normalizeExpression(body);
+
+  try {
+    if (type === 'explicit') {
+      const compiled = getCompiledExpression(normalized);
+      const scope = { ...parameters, x: 0 };
+      const explicit = (x: number) => evaluateExplicit(compiled, scope, x);
+      const at = (s: number): PlotPoint | null => {
+        const y = explicit(s);
+        return y === null ? null : { x: s, y };
+      };
+
+      return {
+        id: func.id,
+        explicit,
+        at,
+        zero: (x, y) => {
+          const fx = explicit(x);
+          return fx === null ? NaN : y - fx;
+        },
+        polylines: sampleParametrisation(at, xDomain[0], xDomain[1], POI_EXPLICIT_SAMPLES)
+      };
+    }
+
+    if (type === 'parametric' || type === 'polar') {
+      const curve = getCurveParametrisation(type, normalized, range, parameters);
+      if (!curve) return null;
+      const at = getFinitePointEvaluator(curve);
+
+      return { id: func.id, at, polylines: sampleParametrisation(at, curve.min, curve.max, curve.steps) };
+    }
+
+    if (type === 'implicit') {
+      const [lhs, rhs] = normalized.split('=');
+      if (!lhs || !rhs) return null;
+      const code = getCompiledExpression(`${lhs} - (${rhs})`);
+      const scope: Record<string, number> = { ...parameters, x: 0, y: 0 };
+      const zero = (x: number, y: number): number => {
         scope.x = x;
-        let y = compiled.evaluate(scope);
-        
-        if (y && typeof y === 'object' && 'entries' in y && Array.isArray(y.entries)) {
-          y = y.entries[y.entries.length - 1];
+        scope.y = y;
+        try {
+          return toRealNumber(code.evaluate(scope));
+        } catch {
+          return NaN;
         }
+      };
 
-        if (typeof y === 'number' && isFinite(y)) {
-           point[id] = y;
-        } else {
-           point[id] = null;
+      const segments = marchSquares(
+        zero,
+        xDomain[0], xDomain[1],
+        yDomain[0], yDomain[1],
+        POI_IMPLICIT_RESOLUTION
+      );
+      return { id: func.id, zero, polylines: buildPolylinesFromSegments(segments).map((points) => ({ points })) };
+    }
+  } catch (e) {
+    return null;
+  }
+
+  return null;
+}
+
+function intersectSegments(
+  p1: PlotPoint, p2: PlotPoint,
+  q1: PlotPoint, q2: PlotPoint
+): { u: number; v: number; point: PlotPoint } | null {
+  const rx = p2.x - p1.x;
+  const ry = p2.y - p1.y;
+  const sx = q2.x - q1.x;
+  const sy = q2.y - q1.y;
+  const denominator = rx * sy - ry * sx;
+  if (Math.abs(denominator) <= 1e-18) return null;
+
+  const qpx = q1.x - p1.x;
+  const qpy = q1.y - p1.y;
+  const u = (qpx * sy - qpy * sx) / denominator;
+  const v = (qpx * ry - qpy * rx) / denominator;
+  if (u < 0 || u > 1 || v < 0 || v > 1) return null;
+
+  return { u, v, point: { x: p1.x + u * rx, y: p1.y + u * ry } };
+}
+
+// Newton's method on a 2x2 system with a finite-difference Jacobian.
+function solveNewton2(
+  system: (a: number, b: number) => [number, number] | null,
+  start: [number, number],
+  iterations: number = 30
+): [number, number] | null {
+  let [a, b] = start;
+
+  for (let i = 0; i < iterations; i++) {
+    const value = system(a, b);
+    if (!value || !isFinite(value[0]) || !isFinite(value[1])) return null;
+    if (Math.abs(value[0]) <= 1e-13 && Math.abs(value[1]) <= 1e-13) return [a, b];
+
+    const ha = Math.max(Math.abs(a), 1) * 1e-7;
+    const hb = Math.max(Math.abs(b), 1) * 1e-7;
+    const da = system(a + ha, b);
+    const db = system(a, b + hb);
+    if (!da || !db) return null;
+
+    const j11 = (da[0] - value[0]) / ha;
+    const j21 = (da[1] - value[1]) / ha;
+    const j12 = (db[0] - value[0]) / hb;
+    const j22 = (db[1] - value[1]) / hb;
+    const det = j11 * j22 - j12 * j21;
+    if (!isFinite(det) || Math.abs(det) <= 1e-300) return null;
+
+    const stepA = (value[0] * j22 - value[1] * j12) / det;
+    const stepB = (value[1] * j11 - value[0] * j21) / det;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) <= 1e-14 * Math.max(Math.abs(a), 1) && Math.abs(stepB) <= 1e-14 * Math.max(Math.abs(b), 1)) {
+      return [a, b];
+    }
+  }
+
+  return [a, b];
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+// Refine a polyline crossing into an exact intersection: bisection along one curve's parameter
+// when the other has a zero set, Newton on the pair otherwise.
+function refineIntersection(
+  a: CurveModel,
+  aLine: SampledPolyline,
+  aIndex: number,
+  b: CurveModel,
+  bLine: SampledPolyline,
+  bIndex: number,
+  hit: { u: number; v: number; point: PlotPoint }
+): PlotPoint {
+  const tryBisection = (
+    curve: CurveModel,
+    line: SampledPolyline,
+    index: number,
+    other: CurveModel
+  ): PlotPoint | null => {
+    if (!curve.at || !line.params || !other.zero) return null;
+    const at = curve.at;
+    const zero = other.zero;
+    const g = (s: number) => {
+      const p = at(s);
+      return p ? zero(p.x, p.y) : NaN;
+    };
+    const s = refineRootBisection(g, line.params[index], line.params[index + 1]);
+    if (s === null) return null;
+    const point = at(s);
+    return point && Math.abs(g(s)) <= 1e-6 ? point : null;
+  };
+
+  const viaA = tryBisection(a, aLine, aIndex, b);
+  if (viaA) return viaA;
+  const viaB = tryBisection(b, bLine, bIndex, a);
+  if (viaB) return viaB;
+
+  const segmentLength = Math.hypot(
+    aLine.points[aIndex + 1].x - aLine.points[aIndex].x,
+    aLine.points[aIndex + 1].y - aLine.points[aIndex].y
+  );
+  const accept = (point: PlotPoint | null): PlotPoint => {
+    if (!point || Math.hypot(point.x - hit.point.x, point.y - hit.point.y) > segmentLength * 2 + 1e-9) {
+      return hit.point;
+    }
+    return point;
+  };
+
+  if (a.zero && b.zero) {
+    const zeroA = a.zero;
+    const zeroB = b.zero;
+    const solution = solveNewton2((x, y) => [zeroA(x, y), zeroB(x, y)], [hit.point.x, hit.point.y]);
+    return accept(solution ? { x: solution[0], y: solution[1] } : null);
+  }
+
+  if (a.at && b.at && aLine.params && bLine.params) {
+    const atA = a.at;
+    const atB = b.at;
+    const solution = solveNewton2((s, r) => {
+      const pa = atA(s);
+      const pb = atB(r);
+      return pa && pb ? [pa.x - pb.x, pa.y - pb.y] : null;
+    }, [
+      lerp(aLine.params[aIndex], aLine.params[aIndex + 1], hit.u),
+      lerp(bLine.params[bIndex], bLine.params[bIndex + 1], hit.v)
+    ]);
+    return accept(solution ? atA(solution[0]) : null);
+  }
+
+  return hit.point;
+}
+
+function findCurveIntersections(a: CurveModel, b: CurveModel): PlotPoint[] {
+  const points: PlotPoint[] = [];
+
+  const bounds = (line: SampledPolyline) => {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    line.points.forEach((p) => {
+      minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    });
+    return { minX, maxX, minY, maxY };
+  };
+
+  for (const aLine of a.polylines) {
+    const aBounds = bounds(aLine);
+    for (const bLine of b.polylines) {
+      const bBounds = bounds(bLine);
+      if (aBounds.maxX < bBounds.minX || bBounds.maxX < aBounds.minX) continue;
+      if (aBounds.maxY < bBounds.minY || bBounds.maxY < aBounds.minY) continue;
+
+      for (let i = 0; i < aLine.points.length - 1; i++) {
+        const p1 = aLine.points[i];
+        const p2 = aLine.points[i + 1];
+        for (let j = 0; j < bLine.points.length - 1; j++) {
+          const hit = intersectSegments(p1, p2, bLine.points[j], bLine.points[j + 1]);
+          if (!hit) continue;
+          points.push(refineIntersection(a, aLine, i, b, bLine, j, hit));
+          if (points.length >= MAX_INTERSECTION_CANDIDATES) return points;
         }
-      } catch (error) {
-        point[id] = null;
+      }
+    }
+  }
+
+  return points;
+}
+
+export function findPointsOfInterest(
+  functions: { id: string; expr: string; visible: boolean }[],
+  xDomain: [number, number],
+  yDomain: [number, number],
+  parameters: Record<string, number> = {}
+): PointOfInterest[] {
+  const [xMin, xMax] = xDomain;
+  const [yMin, yMax] = yDomain;
+  const xSpan = Math.abs(xMax - xMin);
+  const ySpan = Math.abs(yMax - yMin);
+  const results: PointOfInterest[] = [];
+  const isVisible = (p: PlotPoint) => p.x >= xMin && p.x <= xMax && p.y >= yMin && p.y <= yMax;
+  const dedupeDistance = Math.max(xSpan, ySpan) * 1e-6;
+
+  const push = (poi: PointOfInterest) => {
+    if (!isFinite(poi.x) || !isFinite(poi.y) || !isVisible(poi)) return;
+    const duplicate = results.some((other) => (
+      other.kind === poi.kind
+      && Math.hypot(other.x - poi.x, other.y - poi.y) <= dedupeDistance
+      && other.functionIds.join() === poi.functionIds.join()
+    ));
+    if (!duplicate) results.push(poi);
+  };
+
+  const models = functions
+    .map((f) => buildCurveModel(f, xDomain, yDomain, parameters))
+    .filter((m): m is CurveModel => m !== null);
+
+  models.forEach((model) => {
+    const f = model.explicit;
+    if (!f) return;
+    const g = (x: number) => f(x) ?? NaN;
+
+    // Roots; a sign change across a pole bisects onto the pole, so require a small residual.
+    bracketRoots(g, xMin, xMax, POI_EXPLICIT_SAMPLES).forEach((x) => {
+      const y = f(x);
+      if (y !== null && Math.abs(y) <= Math.max(ySpan, 1e-12) * 1e-6) {
+        push({ kind: 'root', x, y: 0, functionIds: [model.id] });
+      }
+    });
+
+    // Extrema as sign changes of a central difference, classified against close neighbours.
+    const h = Math.max(xSpan, 1e-12) * 1e-6;
+    const slope = (x: number) => {
+      const left = f(x - h);
+      const right = f(x + h);
+      return left === null || right === null ? NaN : right - left;
+    };
+    const probe = Math.max(xSpan, 1e-12) * 1e-4;
+    bracketRoots(slope, xMin, xMax, POI_EXPLICIT_SAMPLES).forEach((x) => {
+      const y = f(x);
+      const left = f(x - probe);
+      const right = f(x + probe);
+      if (y === null || left === null || right === null) return;
+
+      if (y > left && y > right) {
+        push({ kind: 'maximum', x, y, functionIds: [model.id] });
+      } else if (y < left && y < right) {
+        push({ kind: 'minimum', x, y, functionIds: [model.id] });
+      } else {
+        return;
+      }
+      // Touching roots such as x^2 at 0 have no sign change, catch them here.
+      if (Math.abs(y) <= Math.max(ySpan, 1e-12) * 1e-9) {
+        push({ kind: 'root', x, y: 0, functionIds: [model.id] });
       }
     });
+  });
+
+  // Sampled polylines bridge poles with near-vertical segments, so every candidate must
+  // actually lie on both curves.
+  const residualTolerance = Math.max(xSpan, ySpan, 1e-12) * 1e-6;
+  const liesOn = (model: CurveModel, p: PlotPoint) => (
+    !model.zero || Math.abs(model.zero(p.x, p.y)) <= residualTolerance
+  );
+
+  for (let i = 0; i < models.length; i++) {
+    for (let j = i + 1; j < models.length; j++) {
+      findCurveIntersections(models[i], models[j]).forEach((p) => {
+        if (!liesOn(models[i], p) || !liesOn(models[j], p)) return;
+        push({ kind: 'intersection', x: p.x, y: p.y, functionIds: [models[i].id, models[j].id] });
+      });
+    }
+  }
+
+  return results.slice(0, MAX_POINTS_OF_INTEREST);
+}
+
+export function formatCoordinate(value: number): string {
+  if (Math.abs(value) < 1e-12) return '0';
+  return Number(value.toPrecision(10)).toString();
+}
+
+export interface TangentInfo {
+  x: number;
+  y: number;
+  slope: number;
+}
+
+// Compiles once for evaluating the same expression many times with changing parameters.
+// The scope is reused as is (x is written into it) to avoid a copy per evaluation.
+export function compileExplicitExpression(expr: string): ((x: number, scope: Record<string, number>) => number | null) | null {
+  try {
+    const compiled = getCompiledExpression(normalizeExpression(expr));
+    return (x, scope) => evaluateExplicit(compiled, scope as { x: number }, x);
+  } catch {
+    return null;
+  }
+}
+
+export function evaluateExplicitAt(
+  expr: string,
+  x: number,
+  parameters: Record<string, number> = {}
+): number | null {
+  try {
+    return evaluateExplicit(getCompiledExpression(normalizeExpression(expr)), { ...parameters, x }, x);
+  } catch {
+    return null;
+  }
+}
+
+// Samples a parametric or polar curve at evenly spaced parameter values over its own range,
+// splitting it where it is undefined.
+export function sampleParametricCurve(
+  expr: string,
+  sampleCount: number,
+  parameters: Record<string, number> = {}
+): PlotPoint[][] | null {
+  const type = detectFunctionType(expr);
+  if (type !== 'parametric' && type !== 'polar') return null;
+
+  const { body, range } = splitParameterRange(expr);
+  try {
+    const curve = getCurveParametrisation(type, normalizeExpression(body), range, parameters);
+    if (!curve) return null;
+    return sampleParametrisation(getFinitePointEvaluator(curve), curve.min, curve.max, Math.max(1, sampleCount - 1))
+      .map((line) => line.points);
+  } catch {
+    return null;
+  }
+}
+
+export interface VelocityVector {
+  x: number;
+  y: number;
+  // Derivative of the position with respect to the curve parameter.
+  dx: number;
+  dy: number;
+}
+
+// Velocity at evenly spaced parameter values, by central differences so that any curve the
+// plotter can draw gets vectors, whether or not mathjs can differentiate it.
+export function getVelocityVectors(
+  expr: string,
+  count: number,
+  parameters: Record<string, number> = {}
+): VelocityVector[] {
+  const type = detectFunctionType(expr);
+  if (type !== 'parametric' && type !== 'polar') return [];
+
+  const { body, range } = splitParameterRange(expr);
+  try {
+    const curve = getCurveParametrisation(type, normalizeExpression(body), range, parameters);
+    if (!curve) return [];
+    const at = getFinitePointEvaluator(curve);
+    const span = curve.max - curve.min;
+    const h = span * 1e-5;
+
+    const vectors: VelocityVector[] = [];
+    for (let i = 0; i < count; i++) {
+      // Midpoints of equal intervals, so a closed curve does not get two arrows at its seam.
+      const s = curve.min + ((i + 0.5) / count) * span;
+      const point = at(s);
+      const before = at(s - h);
+      const after = at(s + h);
+      if (!point || !before || !after) continue;
+      vectors.push({ x: point.x, y: point.y, dx: (after.x - before.x) / (2 * h), dy: (after.y - before.y) / (2 * h) });
+    }
+    return vectors;
+  } catch {
+    return [];
+  }
+}
+
+// Uses the symbolic derivative when mathjs can differentiate the expression, a central difference otherwise.
+export function getTangentInfo(
+  expr: string,
+  x: number,
+  parameters: Record<string, number> = {}
+): TangentInfo | null {
+  if (detectFunctionType(expr) !== 'explicit') return null;
+
+  const y = evaluateExplicitAt(expr, x, parameters);
+  if (y === null) return null;
+
+  const derivativeExpr = getDerivative(expr);
+  let slope = derivativeExpr ? evaluateExplicitAt(derivativeExpr, x, parameters) : null;
+  if (slope === null) {
+    const h = Math.max(Math.abs(x), 1) * 1e-6;
+    const left = evaluateExplicitAt(expr, x - h, parameters);
+    const right = evaluateExplicitAt(expr, x + h, parameters);
+    if (left === null || right === null) return null;
+    slope = (right - left) / (2 * h);
+  }
+
+  return isFinite(slope) ? { x, y, slope } : null;
+}
+
+function formatEquationNumber(value: number): string {
+  if (Math.abs(value) < 1e-10) return '0';
+  return Number(value.toPrecision(4)).toString();
+}
+
+// Line through a point in slope-intercept form; an infinite slope gives a vertical line.
+export function formatLineEquation(point: PlotPoint, slope: number): string {
+  if (!isFinite(slope)) return `x = ${formatEquationNumber(point.x)}`;
+
+  const intercept = point.y - slope * point.x;
+  const slopeText = formatEquationNumber(slope);
+  const interceptText = formatEquationNumber(Math.abs(intercept));
+  if (slopeText === '0') return `y = ${formatEquationNumber(intercept)}`;
 
-    data.push(point);
+  const term = slopeText === '1' ? 'x' : slopeText === '-1' ? '-x' : `${slopeText}x`;
+  if (interceptText === '0') return `y = ${term}`;
+  return `y = ${term} ${intercept < 0 ? '-' : '+'} ${interceptText}`;
+}
+
+export interface ExpressionDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  hint?: string;
+  // Character range in the original expression, when the problem can be located.
+  start?: number;
+  end?: number;
+}
+
+const DIAGNOSTIC_SAMPLES = 64;
+const DIAGNOSTIC_GRID = 12;
+const LONE_EQUALS_REGEX = /(^|[^<>=!])=(?!=)/g;
+const SUGGESTED_FUNCTION_NAMES = [
+  'sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'asin', 'acos', 'atan', 'atan2',
+  'sinh', 'cosh', 'tanh', 'exp', 'log', 'log10', 'log2', 'sqrt', 'cbrt', 'abs',
+  'sign', 'floor', 'ceil', 'round', 'mod', 'max', 'min', 'pow', 'integral'
+];
+
+// Normalization expands a few symbols (π -> pi), so map an index back onto the typed text.
+function toOriginalIndex(original: string, normalizedIndex: number): number {
+  const expansions: Record<string, number> = { 'π': 2, '√': 4, '∞': 8 };
+  let position = 0;
+  for (let i = 0; i < original.length; i++) {
+    position += expansions[original[i]] ?? 1;
+    if (position > normalizedIndex) return i;
+  }
+  return original.length;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_v, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
   }
+  return row[b.length];
+}
 
-  return data;
+function isKnownFunction(name: string): boolean {
+  try {
+    return typeof getCompiledExpression(name).evaluate({}) === 'function';
+  } catch {
+    return false;
+  }
+}
+
+function describeUnknownFunction(name: string, body: string): ExpressionDiagnostic {
+  const suggestion = SUGGESTED_FUNCTION_NAMES
+    .map((candidate) => ({ candidate, distance: editDistance(name, candidate) }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance)[0];
+  const match = new RegExp(`\\b${name}\\s*\\(`).exec(body);
+
+  return {
+    severity: 'error',
+    message: `Undefined function ${name}`,
+    hint: `unknown function \`${name}\`${suggestion ? `, did you mean \`${suggestion.candidate}\`?` : ''}`,
+    ...(match ? { start: match.index, end: match.index + name.length } : {})
+  };
+}
+
+// Split the typed expression into the parts mathjs parses separately, keeping their offsets.
+function getDiagnosticPieces(body: string, type: FunctionType): ExpressionPiece[] | ExpressionDiagnostic {
+  if (type === 'polar') {
+    const prefix = body.match(/^\s*r\s*=/i);
+    return prefix ? [trimPiece(body.slice(prefix[0].length), prefix[0].length)] : [trimPiece(body, 0)];
+  }
+
+  if (type === 'parametric') {
+    const open = body.indexOf('(');
+    const close = body.lastIndexOf(')');
+    const pieces = splitTopLevelPieces(body.slice(open + 1, close), open + 1);
+    if (pieces.length !== 2) {
+      return {
+        severity: 'error',
+        message: `Parametric curve needs 2 components, found ${pieces.length}`,
+        hint: 'write parametric curves as (x(t), y(t))'
+      };
+    }
+    return pieces;
+  }
+
+  if (type === 'implicit') {
+    const equals = Array.from(body.matchAll(LONE_EQUALS_REGEX)).map((m) => (m.index ?? 0) + m[1].length);
+    if (equals.length > 1) {
+      return {
+        severity: 'error',
+        message: `Expected one "=", found ${equals.length}`,
+        hint: 'implicit equation has two `=` signs',
+        start: equals[1],
+        end: equals[1] + 1
+      };
+    }
+    return [trimPiece(body.slice(0, equals[0]), 0), trimPiece(body.slice(equals[0] + 1), equals[0] + 1)];
+  }
+
+  if (type === 'inequality') {
+    const trimmed = body.trim();
+    if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+      const open = body.indexOf('{');
+      return splitTopLevelPieces(body.slice(open + 1, body.lastIndexOf('}')), open + 1);
+    }
+    return [trimPiece(body, 0)];
+  }
+
+  if (type === 'integral') {
+    const open = body.indexOf('(');
+    const pieces = splitTopLevelPieces(body.slice(open + 1, body.lastIndexOf(')')), open + 1);
+    if (pieces.length !== 3 && pieces.length !== 4) {
+      return {
+        severity: 'error',
+        message: `integral expects 3 or 4 arguments, found ${pieces.length}`,
+        hint: 'use integral(f, a, b) or integral(f, g, a, b)'
+      };
+    }
+    return pieces;
+  }
+
+  return [trimPiece(body, 0)];
+}
+
+function checkPieceSyntax(piece: ExpressionPiece, body: string): ExpressionDiagnostic | null {
+  if (!piece.text) {
+    return {
+      severity: 'error',
+      message: 'Missing expression',
+      start: Math.min(piece.offset, Math.max(0, body.length - 1)),
+      end: Math.min(piece.offset + 1, body.length)
+    };
+  }
+
+  // Piecewise braces are rewritten wholesale, so positions inside them cannot be mapped back.
+  const isPiecewise = piece.text.startsWith('{') && piece.text.includes(':');
+  let root: any;
+  try {
+    root = parse(normalizeExpression(piece.text));
+  } catch (error: any) {
+    const message = String(error?.message ?? error).replace(/\s*\(char \d+\)$/, '');
+    const diagnostic: ExpressionDiagnostic = { severity: 'error', message };
+    if (/Parenthesis \) expected/.test(message)) diagnostic.hint = 'unbalanced parentheses';
+    else if (/Unexpected end of expression/.test(message)) diagnostic.hint = 'expression is incomplete';
+
+    // Inlined named functions shift positions, so those cannot be mapped back either.
+    if (!isPiecewise && !hasFunctionReferences(piece.text) && typeof error?.char === 'number') {
+      const start = Math.min(
+        piece.offset + toOriginalIndex(piece.text, Math.max(0, error.char - 1)),
+        Math.max(0, body.length - 1)
+      );
+      diagnostic.start = start;
+      diagnostic.end = start + 1;
+    }
+    return diagnostic;
+  }
+
+  const defined = new Set<string>();
+  root.traverse((node: any) => {
+    if (node.isFunctionAssignmentNode) defined.add(node.name);
+  });
+
+  let unknown: string | null = null;
+  root.traverse((node: any) => {
+    if (unknown || !node.isFunctionNode || !node.fn?.isSymbolNode) return;
+    const name = node.fn.name;
+    if (name !== 'integral' && !defined.has(name) && !isKnownFunction(name)) unknown = name;
+  });
+
+  if (unknown && functionDefinitions[unknown]) {
+    const count = functionDefinitions[unknown].params.length;
+    return {
+      severity: 'error',
+      message: `${unknown} takes ${count} argument${count === 1 ? '' : 's'}`
+    };
+  }
+  return unknown ? describeUnknownFunction(unknown, body) : null;
+}
+
+type SampleOutcome = 'real' | 'undefined' | { error: string };
+
+function classifySample(evaluate: () => any): SampleOutcome {
+  try {
+    let value = evaluate();
+    if (value && typeof value === 'object' && 'entries' in value && Array.isArray(value.entries)) {
+      value = value.entries[value.entries.length - 1];
+    }
+    if (typeof value === 'boolean') return 'real';
+    if (typeof value === 'object' && value !== null && 're' in value) {
+      return value.im === 0 && isFinite(value.re) ? 'real' : 'undefined';
+    }
+    if (value && typeof value === 'object' && 'x' in value && 'y' in value) {
+      return isFinite(value.x) && isFinite(value.y) ? 'real' : 'undefined';
+    }
+    return typeof value === 'number' && isFinite(value) ? 'real' : 'undefined';
+  } catch (error: any) {
+    return { error: String(error?.message ?? error) };
+  }
+}
+
+// Sample the expression the way it is plotted and collect what each sample produced.
+function sampleForDiagnostics(
+  type: FunctionType,
+  body: string,
+  range: ParameterRange | null,
+  xDomain: [number, number],
+  yDomain: [number, number],
+  parameters: Record<string, number>
+): SampleOutcome[] {
+  const normalized = normalizeExpression(body);
+  const xs = Array.from({ length: DIAGNOSTIC_SAMPLES }, (_v, i) => (
+    xDomain[0] + (i + 0.5) * (xDomain[1] - xDomain[0]) / DIAGNOSTIC_SAMPLES
+  ));
+  const grid: PlotPoint[] = [];
+  for (let i = 0; i < DIAGNOSTIC_GRID; i++) {
+    for (let j = 0; j < DIAGNOSTIC_GRID; j++) {
+      grid.push({
+        x: xDomain[0] + (i + 0.5) * (xDomain[1] - xDomain[0]) / DIAGNOSTIC_GRID,
+        y: yDomain[0] + (j + 0.5) * (yDomain[1] - yDomain[0]) / DIAGNOSTIC_GRID
+      });
+    }
+  }
+
+  if (type === 'explicit') {
+    const compiled = getCompiledExpression(normalized);
+    return xs.map((x) => classifySample(() => compiled.evaluate({ ...parameters, x })));
+  }
+
+  if (type === 'parametric' || type === 'polar') {
+    const curve = getCurveParametrisation(type, normalized, range, parameters);
+    if (!curve) return [];
+    return xs.map((_x, i) => classifySample(() => (
+      curve.at(curve.min + (i + 0.5) * (curve.max - curve.min) / DIAGNOSTIC_SAMPLES)
+    )));
+  }
+
+  if (type === 'implicit') {
+    const [lhs, rhs] = normalized.split('=');
+    const compiled = getCompiledExpression(`${lhs} - (${rhs})`);
+    return grid.map((p) => classifySample(() => compiled.evaluate({ ...parameters, x: p.x, y: p.y })));
+  }
+
+  if (type === 'inequality') {
+    const conditions = parseInequality(body) ?? [];
+    const compiled = conditions.map((condition) => getCompiledExpression(condition.expr));
+    return grid.flatMap((p) => compiled.map((code) => classifySample(() => code.evaluate({
+      ...parameters,
+      x: p.x,
+      y: p.y,
+      r: Math.hypot(p.x, p.y),
+      theta: Math.atan2(p.y, p.x)
+    }))));
+  }
+
+  if (type === 'integral') {
+    const spec = parseIntegral(normalized);
+    if (!spec) return [];
+    const curves = [spec.upper, spec.lower]
+      .filter((curve): curve is string => curve !== null)
+      .map((curve) => getCompiledExpression(normalizeExpression(curve)));
+    return xs.flatMap((x) => curves.map((code) => classifySample(() => code.evaluate({ ...parameters, x }))));
+  }
+
+  return [];
+}
+
+export function diagnoseExpression(
+  expr: string,
+  xDomain: [number, number],
+  yDomain: [number, number],
+  parameters: Record<string, number> = {}
+): ExpressionDiagnostic | null {
+  if (!expr.trim()) return null;
+  // Nothing left to plot, e.g. only slider declarations or a definition of several variables.
+  if (!normalizeExpression(splitParameterRange(expr).body).trim()) return null;
+
+  const type = detectFunctionType(expr);
+  if (type === 'geometry') return null;
+  const split = splitParameterRange(expr);
+  const body = blankCurveName(split.body);
+  const range = split.range;
+
+  const constructor = normalizeExpression(body).trim().match(/^(segment|polyline|polygon|circle|ray|line|vector)\s*\(/);
+  if (constructor) {
+    const name = constructor[1] as keyof typeof GEOMETRY_USAGE;
+    const args = normalizeNotation(body).trim().match(GEOMETRY_CONSTRUCTOR_REGEX)?.[2];
+    const unknown = args && splitTopLevelArguments(args).find((arg, index) => (
+      IDENTIFIER_REGEX.test(arg) && !(name === 'circle' && index === 1) && namedGeometry[arg]?.type !== 'point'
+    ));
+    if (unknown) {
+      return { severity: 'error', message: `Unknown point ${unknown}`, hint: `name a point first, e.g. ${unknown} = (1, 2)` };
+    }
+    return {
+      severity: 'error',
+      message: `${name} takes ${GEOMETRY_USAGE[name]}`,
+      hint: 'write points as number pairs, e.g. segment((0, 0), (1, 2))'
+    };
+  }
+
+  // Measurements that could be inlined are gone after normalizing; any left over cannot be taken.
+  const measurement = new RegExp(GEOMETRY_MEASUREMENT_REGEX.source).exec(normalizeExpression(body));
+  if (measurement) {
+    const [, measure, ...names] = measurement;
+    const unknown = names.find((name) => name !== undefined && !namedGeometry[name]);
+    return unknown
+      ? { severity: 'error', message: `Unknown geometry ${unknown}`, hint: `name a shape first, e.g. ${unknown} = polygon((0, 0), (1, 0), (0, 1))` }
+      : { severity: 'error', message: `${measure} does not apply to ${names.filter(Boolean).join(' and ')}` };
+  }
+  const coordinate = new RegExp(POINT_COORDINATE_REGEX.source).exec(normalizeExpression(body));
+  if (coordinate) {
+    return { severity: 'error', message: `Unknown point ${coordinate[1]}`, hint: `name a point first, e.g. ${coordinate[1]} = point on f` };
+  }
+
+  const pieces = getDiagnosticPieces(body, type);
+  if (!Array.isArray(pieces)) return pieces;
+
+  const isScript = type === 'explicit' && /[\n;]/.test(body);
+  for (const piece of pieces) {
+    // Scripts are parsed whole so their assignments stay in one scope.
+    const diagnostic = checkPieceSyntax(piece, body);
+    if (diagnostic) return diagnostic;
+    if (isScript) break;
+  }
+
+  // Sliders for new symbols are created after this runs, so give them their default value here.
+  const scope: Record<string, number> = { time: 0, ...parameters };
+  extractVariables(expr).forEach((name) => {
+    if (scope[name] === undefined) scope[name] = 1;
+  });
+
+  let outcomes: SampleOutcome[];
+  try {
+    outcomes = sampleForDiagnostics(type, body, range, xDomain, yDomain, scope);
+  } catch (error: any) {
+    return { severity: 'error', message: String(error?.message ?? error) };
+  }
+  if (outcomes.length === 0 || outcomes.includes('real')) return null;
+
+  const failure = outcomes.find((outcome): outcome is { error: string } => typeof outcome === 'object');
+  if (failure) {
+    const unknownFunction = failure.error.match(/^Undefined function (\w+)/);
+    if (unknownFunction) return describeUnknownFunction(unknownFunction[1], body);
+    return { severity: 'error', message: failure.error };
+  }
+
+  return {
+    severity: 'warning',
+    message: 'Every sample in the visible area is undefined or complex',
+    hint: 'check the domain, e.g. sqrt or log of negative values, or pan to where the expression is real'
+  };
+}
+
+export function diagnoseGlider(
+  glider: Glider,
+  items: { expr: string }[],
+  parameters: Record<string, number> = {}
+): ExpressionDiagnostic | null {
+  if (!findGliderCurve(glider.curve, items)) {
+    return {
+      severity: 'error',
+      message: `Unknown curve ${glider.curve}`,
+      hint: `name a curve first, e.g. ${glider.curve}(x) = x^2 or ${glider.curve} = (cos(t), sin(t))`
+    };
+  }
+  if (resolveGlider(glider, items, parameters)) return null;
+  return {
+    severity: 'warning',
+    message: `The point cannot be placed on ${glider.curve}`,
+    hint: 'the curve may be undefined there; drag the point or change the value after `at`'
+  };
 }
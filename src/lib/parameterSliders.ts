@@ -0,0 +1,66 @@
+import { SliderDeclaration } from './mathUtils';
+
+export type SliderAnimationMode = 'loop' | 'bounce' | 'once';
+
+export interface SliderConfig {
+  min: number;
+  max: number;
+  step: number;
+  mode: SliderAnimationMode;
+  // Multiple of the base rate, which sweeps the whole range in SWEEP_SECONDS.
+  speed: number;
+}
+
+export const DEFAULT_SLIDER: SliderConfig = { min: -10, max: 10, step: 0.1, mode: 'bounce', speed: 1 };
+export const SLIDER_SPEEDS = [0.25, 0.5, 1, 2, 4];
+const SWEEP_SECONDS = 5;
+
+export function getSliderConfig(sliders: Record<string, SliderConfig>, name: string): SliderConfig {
+  return sliders[name] ?? DEFAULT_SLIDER;
+}
+
+// Declared sliders get their range from the script; animation settings stay the user's.
+export function applySliderDeclaration(config: SliderConfig | undefined, declaration: SliderDeclaration): SliderConfig {
+  return {
+    ...(config ?? DEFAULT_SLIDER),
+    min: declaration.min,
+    max: declaration.max,
+    step: declaration.step ?? (declaration.max - declaration.min) / 100
+  };
+}
+
+// A new parameter starts at 1 when that is in range, otherwise at the nearer end.
+export function getInitialSliderValue(config: SliderConfig, declaration?: SliderDeclaration): number {
+  const value = declaration?.value ?? 1;
+  return Math.min(config.max, Math.max(config.min, value));
+}
+
+export interface AnimationStep {
+  value: number;
+  direction: 1 | -1;
+  finished: boolean;
+}
+
+export function advanceSliderValue(value: number, direction: 1 | -1, config: SliderConfig, seconds: number): AnimationStep {
+  const span = config.max - config.min;
+  if (!(span > 0)) return { value, direction, finished: true };
+
+  let next = value + direction * (span / SWEEP_SECONDS) * config.speed * seconds;
+  if (config.mode === 'once') {
+    return next >= config.max ? { value: config.max, direction, finished: true } : { value: next, direction, finished: false };
+  }
+  if (config.mode === 'loop') {
+    if (next > config.max) next = config.min + ((next - config.min) % span);
+    return { value: next, direction: 1, finished: false };
+  }
+
+  let nextDirection = direction;
+  if (next > config.max) {
+    next = config.max - (next - config.max);
+    nextDirection = -1;
+  } else if (next < config.min) {
+    next = config.min + (config.min - next);
+    nextDirection = 1;
+  }
+  return { value: Math.min(config.max, Math.max(config.min, next)), direction: nextDirection, finished: false };
+}
@@ -0,0 +1,288 @@
+import { PlotPoint, compileExplicitExpression, detectFunctionType, extractVariables } from './mathUtils';
+
+export type FitModelKind = 'linear' | 'polynomial' | 'exponential' | 'logistic' | 'custom';
+
+export interface FitSpec {
+  kind: FitModelKind;
+  // Polynomial degree; ignored by the other models.
+  degree: number;
+  // Model in x for 'custom', e.g. a*sin(b*x + c); every free symbol is fitted.
+  customExpr: string;
+}
+
+export interface FitModel {
+  expr: string;
+  parameters: string[];
+  initial: number[];
+}
+
+export interface FitResult {
+  parameters: Record<string, number>;
+  // Standard errors from the covariance at the solution; NaN when not determined.
+  uncertainties: Record<string, number>;
+  rSquared: number;
+  rmse: number;
+  residuals: PlotPoint[];
+  iterations: number;
+  converged: boolean;
+}
+
+export const MAX_POLYNOMIAL_DEGREE = 10;
+
+// Letters for generated coefficients; skips e (Euler's number) and the plotting variables.
+const COEFFICIENT_NAMES = ['a', 'b', 'c', 'd', 'f', 'g', 'h', 'k', 'm', 'n', 'p'];
+const MAX_ITERATIONS = 200;
+const INITIAL_DAMPING = 1e-3;
+const MAX_DAMPING = 1e16;
+const CONVERGENCE_TOLERANCE = 1e-12;
+
+// Solves A x = b by Gaussian elimination with partial pivoting; null when A is singular.
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (!(Math.abs(a[pivot][col]) > 1e-300)) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x.every(isFinite) ? x : null;
+}
+
+function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const columns: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const unit = new Array<number>(n).fill(0);
+    unit[i] = 1;
+    const column = solveLinearSystem(matrix, unit);
+    if (!column) return null;
+    columns.push(column);
+  }
+  return matrix.map((_row, i) => columns.map((column) => column[i]));
+}
+
+// Coefficients of sum(c_j * basis_j(x)) minimising the squared error.
+function linearLeastSquares(points: PlotPoint[], basis: ((x: number) => number)[]): number[] | null {
+  const k = basis.length;
+  const normal = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const rhs = new Array<number>(k).fill(0);
+  points.forEach(({ x, y }) => {
+    const values = basis.map((fn) => fn(x));
+    for (let i = 0; i < k; i++) {
+      rhs[i] += values[i] * y;
+      for (let j = 0; j < k; j++) normal[i][j] += values[i] * values[j];
+    }
+  });
+  return solveLinearSystem(normal, rhs);
+}
+
+// Picks a suffix (none, 2, 3, ...) that keeps every generated name clear of names in use.
+function pickParameterNames(base: string[], taken: Set<string>): string[] {
+  for (let suffix = 1; ; suffix++) {
+    const names = base.map((name) => (suffix === 1 ? name : `${name}${suffix}`));
+    if (names.every((name) => !taken.has(name))) return names;
+  }
+}
+
+function stripAssignment(expr: string): string {
+  return expr.trim().replace(/^y\s*=\s*/, '');
+}
+
+export function buildFitModel(
+  spec: FitSpec,
+  points: PlotPoint[],
+  parameters: Record<string, number>,
+  takenNames: Set<string>
+): FitModel | null {
+  if (points.length === 0) return null;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const xMin = xs.reduce((min, x) => Math.min(min, x), Infinity);
+  const xMax = xs.reduce((max, x) => Math.max(max, x), -Infinity);
+  const yMax = ys.reduce((max, y) => Math.max(max, y), -Infinity);
+  const xMean = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+
+  if (spec.kind === 'custom') {
+    const expr = stripAssignment(spec.customExpr);
+    if (!expr || detectFunctionType(expr) !== 'explicit') return null;
+    const names = extractVariables(expr);
+    if (names.length === 0) return null;
+    return { expr, parameters: names, initial: names.map((name) => parameters[name] ?? 1) };
+  }
+
+  if (spec.kind === 'linear' || spec.kind === 'polynomial') {
+    const degree = spec.kind === 'linear' ? 1 : Math.max(1, Math.min(MAX_POLYNOMIAL_DEGREE, Math.round(spec.degree)));
+    const names = pickParameterNames(COEFFICIENT_NAMES.slice(0, degree + 1), takenNames);
+    // Highest power first: a*x^2 + b*x + c
+    const terms = names.map((name, i) => {
+      const power = degree - i;
+      return power === 0 ? name : power === 1 ? `${name}*x` : `${name}*x^${power}`;
+    });
+    const basis = names.map((_name, i) => (x: number) => Math.pow(x, degree - i));
+    const initial = linearLeastSquares(points, basis) ?? names.map(() => 0);
+    return { expr: terms.join(' + '), parameters: names, initial };
+  }
+
+  if (spec.kind === 'exponential') {
+    const names = pickParameterNames(['a', 'b'], takenNames);
+    // Fitting log|y| linearly gives the exact answer for noiseless data of one sign.
+    const sign = ys.every((y) => y > 0) ? 1 : ys.every((y) => y < 0) ? -1 : 0;
+    const logFit = sign !== 0
+      ? linearLeastSquares(points.map((p) => ({ x: p.x, y: Math.log(Math.abs(p.y)) })), [(x) => x, () => 1])
+      : null;
+    const initial = logFit ? [sign * Math.exp(logFit[1]), logFit[0]] : [ys.reduce((sum, y) => sum + y, 0) / ys.length, 0];
+    return { expr: `${names[0]}*e^(${names[1]}*x)`, parameters: names, initial };
+  }
+
+  // Logistic: carrying capacity c, growth rate k, midpoint m.
+  const names = pickParameterNames(['c', 'k', 'm'], takenNames);
+  const slope = linearLeastSquares(points, [(x) => x, () => 1])?.[0] ?? 1;
+  const span = xMax > xMin ? xMax - xMin : 1;
+  const initial = [yMax > 0 ? yMax : 1, (slope >= 0 ? 4 : -4) / span, xMean];
+  return { expr: `${names[0]} / (1 + e^(-${names[1]}*(x - ${names[2]})))`, parameters: names, initial };
+}
+
+// Levenberg–Marquardt with a forward-difference Jacobian and Marquardt's diagonal scaling.
+export function fitModel(model: FitModel, points: PlotPoint[], fixedParameters: Record<string, number> = {}): FitResult | null {
+  const evaluate = compileExplicitExpression(model.expr);
+  if (!evaluate || points.length === 0) return null;
+
+  const k = model.parameters.length;
+  const n = points.length;
+  const scope: Record<string, number> = { ...fixedParameters };
+
+  const predict = (params: number[]): number[] | null => {
+    model.parameters.forEach((name, i) => {
+      scope[name] = params[i];
+    });
+    const values = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+      const value = evaluate(points[i].x, scope);
+      if (value === null) return null;
+      values[i] = value;
+    }
+    return values;
+  };
+
+  const sumSquares = (values: number[] | null) => {
+    if (!values) return Infinity;
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += (points[i].y - values[i]) ** 2;
+    return sum;
+  };
+
+  const jacobian = (params: number[], base: number[]): number[][] | null => {
+    const columns: number[][] = [];
+    for (let j = 0; j < k; j++) {
+      const h = 1e-7 * Math.max(Math.abs(params[j]), 1);
+      const shifted = [...params];
+      shifted[j] += h;
+      const values = predict(shifted);
+      if (!values) return null;
+      columns.push(values.map((v, i) => (v - base[i]) / h));
+    }
+    return columns;
+  };
+
+  let params = [...model.initial];
+  let values = predict(params);
+  let ssr = sumSquares(values);
+  if (!isFinite(ssr)) return null;
+
+  let damping = INITIAL_DAMPING;
+  let iterations = 0;
+  let converged = false;
+  let normal: number[][] = [];
+
+  while (iterations < MAX_ITERATIONS && damping < MAX_DAMPING) {
+    iterations++;
+    const columns = jacobian(params, values as number[]);
+    if (!columns) break;
+
+    normal = columns.map((a) => columns.map((b) => a.reduce((sum, v, i) => sum + v * b[i], 0)));
+    const gradient = columns.map((column) => column.reduce((sum, v, i) => sum + v * (points[i].y - (values as number[])[i]), 0));
+
+    let improved = false;
+    while (damping < MAX_DAMPING) {
+      const damped = normal.map((row, i) => row.map((v, j) => (i === j ? v + damping * Math.max(v, 1e-12) : v)));
+      const step = solveLinearSystem(damped, gradient);
+      const candidate = step ? params.map((p, i) => p + step[i]) : null;
+      const candidateValues = candidate ? predict(candidate) : null;
+      const candidateSsr = sumSquares(candidateValues);
+
+      if (candidate && candidateSsr <= ssr) {
+        const relativeChange = (ssr - candidateSsr) / Math.max(ssr, 1e-300);
+        params = candidate;
+        values = candidateValues;
+        ssr = candidateSsr;
+        damping = Math.max(damping / 10, 1e-12);
+        improved = true;
+        converged = relativeChange < CONVERGENCE_TOLERANCE || ssr < 1e-300;
+        break;
+      }
+      damping *= 10;
+    }
+    if (!improved || converged) {
+      // No step reduces the error any further: a (local) minimum.
+      converged = true;
+      break;
+    }
+  }
+
+  const finalValues = predict(params);
+  if (!finalValues) return null;
+  const finalColumns = jacobian(params, finalValues);
+  if (finalColumns) {
+    normal = finalColumns.map((a) => finalColumns.map((b) => a.reduce((sum, v, i) => sum + v * b[i], 0)));
+  }
+
+  const yMean = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sst = points.reduce((sum, p) => sum + (p.y - yMean) ** 2, 0);
+  const variance = n > k ? ssr / (n - k) : NaN;
+  const covariance = invertMatrix(normal);
+
+  const fitted: Record<string, number> = {};
+  const uncertainties: Record<string, number> = {};
+  model.parameters.forEach((name, i) => {
+    fitted[name] = params[i];
+    const c = covariance?.[i][i];
+    uncertainties[name] = c !== undefined && c >= 0 ? Math.sqrt(c * variance) : NaN;
+  });
+
+  return {
+    parameters: fitted,
+    uncertainties,
+    rSquared: sst > 0 ? 1 - ssr / sst : NaN,
+    rmse: Math.sqrt(ssr / n),
+    residuals: points.map((p, i) => ({ x: p.x, y: p.y - finalValues[i] })),
+    iterations,
+    converged
+  };
+}
+
+// A fit attached to a data series. The fitted model is drawn by an ordinary function item and
+// the residuals, when shown, by a second data series.
+export interface SeriesFit {
+  spec: FitSpec;
+  functionId: string | null;
+  residualsId: string | null;
+  pending: boolean;
+  result: FitResult | null;
+  error: string | null;
+}
@@ -0,0 +1,623 @@
+import { parse, simplify, simplifyCore, simplifyConstant, rationalize, derivative, MathNode } from 'mathjs';
+import {
+  detectFunctionType,
+  normalizeExpression,
+  splitParameterRange,
+  getFunctionDefinitions,
+  getSliderDeclarationStatements,
+  parseFunctionDefinition,
+  DEFAULT_PARAMETER_RANGES,
+  FunctionType
+} from './mathUtils';
+
+export type SymbolicAction = 'simplify' | 'expand' | 'factor' | 'derivative' | 'partial' | 'implicit';
+
+export interface SymbolicRequest {
+  action: SymbolicAction;
+  // Derivative order; ignored by the other actions.
+  order: number;
+  // Variable of a partial derivative.
+  variable: string;
+}
+
+export interface SymbolicResult {
+  node: MathNode;
+  // What a function item holds to plot the result, e.g. `r = ...` for a polar curve.
+  expr: string;
+  // What the item itself becomes when the result replaces it: a named function keeps its name,
+  // so the rows that call it still work, and a script keeps its slider declarations.
+  replacement: string;
+}
+
+export type SymbolicOutcome = { result: SymbolicResult } | { error: string };
+
+export interface CurveDerivative {
+  label: string;
+  node: MathNode;
+  // Curve plotting this quantity, e.g. `(t, ...)` against the parameter or `(x(t), ...)` against x.
+  expr: string;
+}
+
+export interface CurveDerivatives {
+  derivatives: CurveDerivative[];
+  // Curve traced by the velocity vector, (x'(t), y'(t)).
+  hodograph: string;
+}
+
+export const SYMBOLIC_ACTIONS: { value: SymbolicAction; label: string }[] = [
+  { value: 'simplify', label: 'Simplify' },
+  { value: 'expand', label: 'Expand' },
+  { value: 'factor', label: 'Factor' },
+  { value: 'derivative', label: 'Derivative' },
+  { value: 'partial', label: 'Partial derivative' },
+  { value: 'implicit', label: 'Implicit dy/dx' }
+];
+
+export const MAX_DERIVATIVE_ORDER = 10;
+
+const EXPAND_RULES: any[] = [
+  'n1*(n2+n3) -> n1*n2 + n1*n3',
+  '(n1+n2)*n3 -> n1*n3 + n2*n3',
+  'n1*(n2-n3) -> n1*n2 - n1*n3',
+  '(n1-n2)*n3 -> n1*n3 - n2*n3',
+  '(n1+n2)^2 -> (n1+n2)*(n1+n2)',
+  '(n1-n2)^2 -> (n1-n2)*(n1-n2)',
+  simplifyCore,
+  simplifyConstant
+];
+// Rational root candidates come from the divisors of the outer coefficients, so keep them small.
+const MAX_FACTOR_COEFFICIENT = 1e6;
+const CONSTANT_SYMBOLS = new Set(['pi', 'e', 'phi', 'tau', 'Infinity', 'time']);
+
+interface SymbolicTarget {
+  type: FunctionType;
+  node: MathNode;
+  wrap: (node: MathNode) => string;
+}
+
+// Scripts are folded into one expression by substituting each assignment into what follows.
+function inlineScript(root: any): MathNode {
+  if (!root.isBlockNode) return root;
+  const values = new Map<string, MathNode>();
+  const substitute = (node: MathNode) => node.transform((child: any, path: string) => (
+    child.isSymbolNode && path !== 'fn' && values.has(child.name) ? parse(`(${values.get(child.name)})`) : child
+  ));
+  let result: MathNode | null = null;
+  root.blocks.forEach(({ node }: any) => {
+    if (node.isAssignmentNode && node.object?.isSymbolNode) {
+      values.set(node.object.name, substitute(node.value));
+    } else {
+      result = substitute(node);
+    }
+  });
+  if (!result) throw new Error('Script has no result');
+  return result;
+}
+
+function getSymbolicTarget(expr: string): SymbolicTarget {
+  const type = detectFunctionType(expr);
+  const { body } = splitParameterRange(expr);
+  const suffix = expr.slice(body.length);
+  const normalized = normalizeExpression(body);
+
+  if (type === 'explicit') {
+    return { type, node: inlineScript(parse(normalized.replace(/^\s*y\s*=\s*/, ''))), wrap: (node) => node.toString() };
+  }
+  if (type === 'implicit') {
+    const [lhs, rhs] = normalized.split('=');
+    return { type, node: parse(`(${lhs}) - (${rhs})`), wrap: (node) => `${node.toString()} = 0` };
+  }
+  if (type === 'polar') {
+    return {
+      type,
+      node: parse(normalized.replace(/^\s*r\s*=\s*/i, '')),
+      wrap: (node) => `r = ${node.toString()}${suffix}`
+    };
+  }
+  throw new Error(`Symbolic actions are not available for ${type} expressions`);
+}
+
+export function getSymbolicActions(expr: string): SymbolicAction[] {
+  const type = detectFunctionType(expr);
+  if (type === 'explicit') return ['simplify', 'expand', 'factor', 'derivative', 'partial'];
+  if (type === 'implicit') return ['simplify', 'expand', 'factor', 'partial', 'implicit'];
+  if (type === 'polar') return ['simplify', 'expand', 'factor'];
+  return [];
+}
+
+// Free variables a partial derivative can be taken with respect to.
+export function getSymbolicVariables(expr: string): string[] {
+  try {
+    const names = new Set<string>();
+    getSymbolicTarget(expr).node.traverse((node: any, path: string) => {
+      if (node.isSymbolNode && path !== 'fn' && !CONSTANT_SYMBOLS.has(node.name)) names.add(node.name);
+    });
+    return Array.from(names).sort((a, b) => (a === 'x' ? -1 : b === 'x' ? 1 : a === 'y' ? -1 : b === 'y' ? 1 : a.localeCompare(b)));
+  } catch {
+    return [];
+  }
+}
+
+function isSum(node: any): boolean {
+  return node.isOperatorNode && (node.op === '+' || node.op === '-') && node.args.length === 2;
+}
+
+function isExpanded(root: MathNode): boolean {
+  let expanded = true;
+  root.traverse((node: any) => {
+    const args = node.isOperatorNode ? node.args.map((arg: any) => (arg.isParenthesisNode ? arg.content : arg)) : [];
+    if (node.isOperatorNode && node.op === '*' && args.some(isSum)) expanded = false;
+    if (node.isOperatorNode && node.op === '^' && isSum(args[0])) expanded = false;
+  });
+  return expanded;
+}
+
+function expand(node: MathNode): MathNode {
+  try {
+    // Exact for polynomials and rational functions in one variable.
+    const rational: any = rationalize(node, {}, true);
+    if (rational.variables.length <= 1) return rational.expression;
+  } catch {
+    // Not rational: distribute instead.
+  }
+  const distributed = simplify(node, EXPAND_RULES);
+  // Collecting like terms can factor again; keep that only when the result stays expanded.
+  const collected = simplify(distributed);
+  return isExpanded(collected) ? collected : distributed;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b);
+}
+
+function divisors(n: number): number[] {
+  const result: number[] = [];
+  for (let d = 1; d * d <= n; d++) {
+    if (n % d === 0) result.push(d, n / d);
+  }
+  return result;
+}
+
+// Coefficients are lowest power first. Tests P(p/q) = 0 as q^n P(p/q) = 0, in integers.
+function hasRationalRoot(coefficients: number[], p: number, q: number): boolean {
+  const n = coefficients.length - 1;
+  return coefficients.reduce((sum, c, i) => sum + c * p ** i * q ** (n - i), 0) === 0;
+}
+
+// Divides by (q*x - p), which must be a factor.
+function dividePolynomial(coefficients: number[], p: number, q: number): number[] {
+  const high = [...coefficients].reverse();
+  const quotient: number[] = [];
+  let carry = 0;
+  for (let i = 0; i < high.length - 1; i++) {
+    const value = (high[i] + carry) / q;
+    quotient.push(value);
+    carry = value * p;
+  }
+  return quotient.reverse();
+}
+
+function formatPolynomial(coefficients: number[], variable: string): string {
+  const terms: string[] = [];
+  for (let power = coefficients.length - 1; power >= 0; power--) {
+    const c = coefficients[power];
+    if (c === 0) continue;
+    const monomial = power === 0 ? '' : power === 1 ? variable : `${variable}^${power}`;
+    const magnitude = Math.abs(c);
+    const body = monomial ? (magnitude === 1 ? monomial : `${magnitude}*${monomial}`) : String(magnitude);
+    terms.push(terms.length === 0 ? (c < 0 ? `-${body}` : body) : `${c < 0 ? '-' : '+'} ${body}`);
+  }
+  return terms.join(' ') || '0';
+}
+
+// Factors a polynomial in one variable over the rationals: content, powers of the variable and
+// linear factors from rational roots, leaving whatever does not split.
+function factor(node: MathNode): MathNode {
+  let rational: any;
+  try {
+    rational = rationalize(node, {}, true);
+  } catch {
+    throw new Error('Only polynomials can be factored');
+  }
+  if (rational.variables.length !== 1 || !rational.coefficients?.length || rational.denominator) {
+    throw new Error('Only polynomials in one variable can be factored');
+  }
+  const variable: string = rational.variables[0];
+  let coefficients: number[] = rational.coefficients.map(Number);
+  if (!coefficients.every((c) => Number.isInteger(c) && Math.abs(c) <= MAX_FACTOR_COEFFICIENT)) {
+    throw new Error('Only polynomials with small integer coefficients can be factored');
+  }
+
+  const factors: string[] = [];
+  const leading = coefficients[coefficients.length - 1];
+  const content = Math.sign(leading) * coefficients.reduce((g, c) => gcd(g, c), 0);
+  coefficients = coefficients.map((c) => c / content);
+
+  let zeroPower = 0;
+  while (coefficients.length > 1 && coefficients[0] === 0) {
+    coefficients = coefficients.slice(1);
+    zeroPower++;
+  }
+  if (zeroPower > 0) factors.push(zeroPower === 1 ? variable : `${variable}^${zeroPower}`);
+
+  const roots = new Map<string, { text: string; multiplicity: number }>();
+  let searching = true;
+  while (searching && coefficients.length > 1) {
+    searching = false;
+    const constant = Math.abs(coefficients[0]);
+    const top = Math.abs(coefficients[coefficients.length - 1]);
+    for (const p of divisors(constant)) {
+      for (const q of divisors(top)) {
+        for (const sign of [1, -1]) {
+          if (gcd(p, q) !== 1 || !hasRationalRoot(coefficients, sign * p, q)) continue;
+          coefficients = dividePolynomial(coefficients, sign * p, q);
+          const text = q === 1
+            ? `${variable} ${sign > 0 ? '-' : '+'} ${p}`
+            : `${q}*${variable} ${sign > 0 ? '-' : '+'} ${p}`;
+          const entry = roots.get(text) ?? { text, multiplicity: 0 };
+          entry.multiplicity++;
+          roots.set(text, entry);
+          searching = true;
+          break;
+        }
+        if (searching) break;
+      }
+      if (searching) break;
+    }
+  }
+  roots.forEach(({ text, multiplicity }) => factors.push(multiplicity === 1 ? `(${text})` : `(${text})^${multiplicity}`));
+  const rest = coefficients.length > 1 ? `(${formatPolynomial(coefficients, variable)})` : null;
+  // A lone linear factor is the polynomial itself; a repeated one, e.g. (x + 1)^2, is a result.
+  const irreducible = factors.length === 1 && !rest && content === 1 && zeroPower === 0
+    && Array.from(roots.values())[0].multiplicity === 1;
+  if (factors.length === 0 || irreducible) {
+    throw new Error('No rational factors found');
+  }
+  if (rest) factors.push(rest);
+  const scale = content * (coefficients.length === 1 ? coefficients[0] : 1);
+  if (scale !== 1) factors.unshift(scale === -1 ? '-1' : String(scale));
+  return parse(factors.join(' * ').replace(/^-1 \* /, '-'));
+}
+
+function dependsOn(root: MathNode, name: string): boolean {
+  let found = false;
+  root.traverse((node: any, path: string) => {
+    if (node.isSymbolNode && path !== 'fn' && node.name === name) found = true;
+  });
+  return found;
+}
+
+// Results in x and y of an implicit curve cannot be plotted on their own, so they become a
+// named function of both, which other rows can call.
+function toDefinition(base: string, node: MathNode): string {
+  const taken = getFunctionDefinitions();
+  let name = base;
+  for (let suffix = 2; taken[name]; suffix++) name = `${base}${suffix}`;
+  return `${name}(x, y) = ${node.toString()}`;
+}
+
+// An explicit result in place of the item it came from, see SymbolicResult.replacement.
+function keepInPlace(expr: string, plotted: string): string {
+  const { body } = splitParameterRange(expr);
+  const definition = parseFunctionDefinition(body);
+  const head = definition ? `${definition.name}(x) = ` : '';
+  return [...getSliderDeclarationStatements(body), head + plotted].join('\n');
+}
+
+function getSymbolicResult(target: SymbolicTarget, request: SymbolicRequest): Omit<SymbolicResult, 'replacement'> {
+  if (request.action === 'simplify') {
+    const node = simplify(target.node);
+    return { node, expr: target.wrap(node) };
+  }
+  if (request.action === 'expand') {
+    const node = expand(target.node);
+    return { node, expr: target.wrap(node) };
+  }
+  if (request.action === 'factor') {
+    const node = factor(target.node);
+    return { node, expr: target.wrap(node) };
+  }
+  if (request.action === 'derivative') {
+    const order = Math.max(1, Math.min(MAX_DERIVATIVE_ORDER, Math.round(request.order)));
+    let node = target.node;
+    for (let i = 0; i < order; i++) node = derivative(node, 'x');
+    return { node, expr: node.toString() };
+  }
+  if (request.action === 'partial') {
+    const node = derivative(target.node, request.variable);
+    const plotted = target.type === 'implicit' && dependsOn(node, 'y')
+      ? toDefinition(`F_${request.variable}`, node)
+      : node.toString();
+    return { node, expr: plotted };
+  }
+
+  // dy/dx = -F_x / F_y along F(x, y) = 0.
+  const node = simplify(parse(`-(${derivative(target.node, 'x')}) / (${derivative(target.node, 'y')})`));
+  return { node, expr: dependsOn(node, 'y') ? toDefinition('dydx', node) : node.toString() };
+}
+
+export function applySymbolicAction(expr: string, request: SymbolicRequest): SymbolicOutcome {
+  try {
+    const target = getSymbolicTarget(expr);
+    if (!getSymbolicActions(expr).includes(request.action)) {
+      return { error: 'Not available for this expression' };
+    }
+
+    const result = getSymbolicResult(target, request);
+    const replacement = target.type === 'explicit' ? keepInPlace(expr, result.expr) : result.expr;
+    return { result: { ...result, replacement } };
+  } catch (error: any) {
+    return { error: String(error?.message ?? error) };
+  }
+}
+
+// Polar quantities are plotted as parametric curves, which run over t rather than theta.
+function toParameterT(node: MathNode): MathNode {
+  return node.transform((child: any, path: string) => (
+    child.isSymbolNode && path !== 'fn' && child.name === 'theta' ? parse('t') : child
+  ));
+}
+
+function toPlot(x: MathNode, y: MathNode, suffix: string): string {
+  return `(${x.toString()}, ${y.toString()})${suffix}`;
+}
+
+// dx/dt, dy/dt, dy/dx and d²y/dx² of a parametric curve; dr/dθ, dx/dθ, dy/dθ and dy/dx of a
+// polar one. Returns null for other kinds of expression.
+export function getCurveDerivatives(expr: string): CurveDerivatives | { error: string } | null {
+  const type = detectFunctionType(expr);
+  if (type !== 'parametric' && type !== 'polar') return null;
+
+  try {
+    const { body, range } = splitParameterRange(expr);
+    const normalized = normalizeExpression(body);
+    const t = parse('t');
+
+    if (type === 'parametric') {
+      const suffix = expr.slice(body.length);
+      const parts = parse(`[${normalized.trim().slice(1, -1)}]`) as any;
+      if (parts.items?.length !== 2) return { error: 'Write parametric curves as (x(t), y(t))' };
+      const [x, y] = parts.items as MathNode[];
+      const dx = derivative(x, 't');
+      const dy = derivative(y, 't');
+      const slope = simplify(parse(`(${dy}) / (${dx})`));
+      // d²y/dx² = d/dt(dy/dx) / (dx/dt)
+      const curvature = simplify(parse(`(${derivative(slope, 't')}) / (${dx})`));
+      return {
+        derivatives: [
+          { label: 'dx/dt', node: dx, expr: toPlot(t, dx, suffix) },
+          { label: 'dy/dt', node: dy, expr: toPlot(t, dy, suffix) },
+          { label: 'dy/dx', node: slope, expr: toPlot(x, slope, suffix) },
+          { label: 'd²y/dx²', node: curvature, expr: toPlot(x, curvature, suffix) }
+        ],
+        hodograph: toPlot(dx, dy, suffix)
+      };
+    }
+
+    const bounds = range?.variable === 'theta' ? range : DEFAULT_PARAMETER_RANGES.theta;
+    const suffix = ` {${bounds.min} <= t <= ${bounds.max}}`;
+    const r = inlineScript(parse(normalized.replace(/^\s*r\s*=\s*/i, '')));
+    const dr = derivative(r, 'theta');
+    const dx = simplify(parse(`(${dr}) * cos(theta) - (${r}) * sin(theta)`));
+    const dy = simplify(parse(`(${dr}) * sin(theta) + (${r}) * cos(theta)`));
+    const slope = simplify(parse(`(${dy}) / (${dx})`));
+    const x = toParameterT(simplifyCore(parse(`(${r}) * cos(theta)`)));
+    return {
+      derivatives: [
+        { label: 'dr/dθ', node: dr, expr: `r = ${dr.toString()}${expr.slice(body.length)}` },
+        { label: 'dx/dθ', node: dx, expr: toPlot(t, toParameterT(dx), suffix) },
+        { label: 'dy/dθ', node: dy, expr: toPlot(t, toParameterT(dy), suffix) },
+        { label: 'dy/dx', node: slope, expr: toPlot(x, toParameterT(slope), suffix) }
+      ],
+      hodograph: toPlot(toParameterT(dx), toParameterT(dy), suffix)
+    };
+  } catch (error: any) {
+    return { error: String(error?.message ?? error) };
+  }
+}
+
+// Shift and scale of a transformed copy: (x, y) -> (sx * x + dx, sy * y + dy). Each entry is an
+// expression and may reference parameters.
+export interface FunctionTransform {
+  dx: string;
+  dy: string;
+  sx: string;
+  sy: string;
+}
+
+export const IDENTITY_TRANSFORM: FunctionTransform = { dx: '0', dy: '0', sx: '1', sy: '1' };
+
+const ANTIDERIVATIVE_RULES: Record<string, string> = {
+  sin: '-cos(u)',
+  cos: 'sin(u)',
+  tan: '-log(abs(cos(u)))',
+  exp: 'exp(u)',
+  sqrt: '2/3 * u^(3/2)',
+  sinh: 'cosh(u)',
+  cosh: 'sinh(u)'
+};
+// Folds the constants the table introduces while keeping the integrand's own structure.
+const ANTIDERIVATIVE_SIMPLIFY_RULES: any[] = [
+  simplifyCore,
+  'n1 * -n2 -> -(n1 * n2)',
+  '-n1 / n2 -> -(n1 / n2)',
+  simplifyConstant,
+  simplifyCore
+];
+
+function substitute(root: MathNode, values: Record<string, MathNode>): MathNode {
+  return root.transform((node: any, path: string) => (
+    node.isSymbolNode && path !== 'fn' && values[node.name] ? values[node.name] : node
+  ));
+}
+
+function isMinusOne(node: MathNode): boolean {
+  try {
+    return node.evaluate() === -1;
+  } catch {
+    return false;
+  }
+}
+
+// Slope of an argument of the form a * x + b, or null when it is not linear in x.
+function getLinearCoefficient(node: MathNode): MathNode | null {
+  const slope = simplify(derivative(node, 'x'));
+  if (dependsOn(slope, 'x') || (slope as any).value === 0) return null;
+  return slope;
+}
+
+// Table lookup over sums, constant multiples, powers and the functions above, each of a linear
+// argument; anything else (products of two functions of x, for one) is not integrated.
+function integrateNode(node: any): MathNode | null {
+  if (node.isParenthesisNode) return integrateNode(node.content);
+  if (!dependsOn(node, 'x')) return parse(`(${node}) * x`);
+  if (node.isSymbolNode) return parse('x^2 / 2');
+
+  if (node.isOperatorNode) {
+    const [a, b] = node.args;
+    if (node.fn === 'unaryMinus' || node.fn === 'unaryPlus') {
+      const integral = integrateNode(a);
+      return integral && parse(`${node.op}(${integral})`);
+    }
+    if (node.op === '+' || node.op === '-') {
+      const left = integrateNode(a);
+      const right = integrateNode(b);
+      return left && right && parse(`(${left}) ${node.op} (${right})`);
+    }
+    if (node.op === '*' && node.args.length === 2) {
+      if (!dependsOn(a, 'x')) return applyFactor(integrateNode(b), a, '*');
+      if (!dependsOn(b, 'x')) return applyFactor(integrateNode(a), b, '*');
+      return null;
+    }
+    if (node.op === '/') {
+      if (!dependsOn(b, 'x')) return applyFactor(integrateNode(a), b, '/');
+      const slope = getLinearCoefficient(b);
+      return slope && parse(`(${a}) * log(abs(${b})) / (${slope})`);
+    }
+    if (node.op === '^') {
+      if (!dependsOn(b, 'x')) {
+        const slope = getLinearCoefficient(a);
+        if (!slope) return null;
+        return isMinusOne(b)
+          ? parse(`log(abs(${a})) / (${slope})`)
+          : parse(`(${a})^((${b}) + 1) / (((${b}) + 1) * (${slope}))`);
+      }
+      if (!dependsOn(a, 'x')) {
+        const slope = getLinearCoefficient(b);
+        if (!slope) return null;
+        return a.isSymbolNode && a.name === 'e'
+          ? parse(`e^(${b}) / (${slope})`)
+          : parse(`(${a})^(${b}) / ((${slope}) * log(${a}))`);
+      }
+    }
+    return null;
+  }
+
+  if (node.isFunctionNode && node.args.length === 1) {
+    const rule = ANTIDERIVATIVE_RULES[node.fn?.name];
+    const slope = getLinearCoefficient(node.args[0]);
+    if (!rule || !slope) return null;
+    return parse(`(${substitute(parse(rule), { u: parse(`(${node.args[0]})`) })}) / (${slope})`);
+  }
+  return null;
+}
+
+function applyFactor(integral: MathNode | null, factor: MathNode, op: '*' | '/'): MathNode | null {
+  return integral && parse(`(${integral}) ${op} (${factor})`);
+}
+
+// Antiderivative of an explicit function with the constant of integration left at zero.
+export function getAntiderivative(expr: string): string | null {
+  try {
+    const target = getSymbolicTarget(expr);
+    if (target.type !== 'explicit') return null;
+    const integral = integrateNode(target.node);
+    return integral ? simplify(integral, ANTIDERIVATIVE_SIMPLIFY_RULES).toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function toParametric(target: SymbolicTarget, suffix: string): { x: MathNode; y: MathNode; suffix: string } {
+  const { range } = splitParameterRange(suffix);
+  const bounds = range?.variable === 'theta' ? range : DEFAULT_PARAMETER_RANGES.theta;
+  const r = toParameterT(target.node);
+  return {
+    x: simplifyCore(parse(`(${r}) * cos(t)`)),
+    y: simplifyCore(parse(`(${r}) * sin(t)`)),
+    suffix: ` {${bounds.min} <= t <= ${bounds.max}}`
+  };
+}
+
+function getParametricParts(expr: string): { x: MathNode; y: MathNode; suffix: string } | null {
+  const { body } = splitParameterRange(expr);
+  const parts = parse(`[${normalizeExpression(body).trim().slice(1, -1)}]`) as any;
+  if (parts.items?.length !== 2) return null;
+  return { x: parts.items[0], y: parts.items[1], suffix: expr.slice(body.length) };
+}
+
+function getImplicitSides(expr: string): [MathNode, MathNode] {
+  const [lhs, rhs] = normalizeExpression(expr).split('=');
+  return [parse(lhs), parse(rhs)];
+}
+
+// Reflection in y = x. An explicit function becomes the parametric curve (f(t), t) since its
+// inverse need not be a function.
+export function getInverse(expr: string): string | null {
+  try {
+    const type = detectFunctionType(expr);
+    if (type === 'explicit') {
+      return toPlot(toParameterT(substitute(getSymbolicTarget(expr).node, { x: parse('t') })), parse('t'), '');
+    }
+    if (type === 'parametric') {
+      const parts = getParametricParts(expr);
+      return parts && toPlot(parts.y, parts.x, parts.suffix);
+    }
+    if (type === 'polar') {
+      const { body } = splitParameterRange(expr);
+      const parts = toParametric(getSymbolicTarget(expr), expr.slice(body.length));
+      return toPlot(parts.y, parts.x, parts.suffix);
+    }
+    if (type === 'implicit') {
+      const swap = { x: parse('y'), y: parse('x') };
+      const [lhs, rhs] = getImplicitSides(expr);
+      return `${substitute(lhs, swap)} = ${substitute(rhs, swap)}`;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// Applies the transform to the plotted points: graphs substitute the inverse map into x (and y),
+// curves map their coordinates directly.
+export function getTransformed(expr: string, transform: FunctionTransform): string | null {
+  try {
+    const type = detectFunctionType(expr);
+    const { dx, dy, sx, sy } = transform;
+    const mapX = (node: MathNode) => simplifyCore(parse(`(${sx}) * (${node}) + (${dx})`));
+    const mapY = (node: MathNode) => simplifyCore(parse(`(${sy}) * (${node}) + (${dy})`));
+    const inverse = {
+      x: parse(`(x - (${dx})) / (${sx})`),
+      y: parse(`(y - (${dy})) / (${sy})`)
+    };
+
+    if (type === 'explicit') {
+      return mapY(substitute(getSymbolicTarget(expr).node, { x: inverse.x })).toString();
+    }
+    if (type === 'implicit') {
+      const [lhs, rhs] = getImplicitSides(expr);
+      return `${simplifyCore(substitute(lhs, inverse))} = ${simplifyCore(substitute(rhs, inverse))}`;
+    }
+    if (type === 'parametric' || type === 'polar') {
+      const { body } = splitParameterRange(expr);
+      const parts = type === 'parametric'
+        ? getParametricParts(expr)
+        : toParametric(getSymbolicTarget(expr), expr.slice(body.length));
+      return parts && toPlot(mapX(parts.x), mapY(parts.y), parts.suffix);
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,137 @@
+export type TableDelimiter = ',' | '\t' | ';' | '|' | ' ';
+
+export interface ParsedTable {
+  delimiter: TableDelimiter;
+  hasHeader: boolean;
+  headers: string[];
+  rows: string[][];
+  columnCount: number;
+}
+
+export interface TableParseOptions {
+  // Detected from the first lines when omitted.
+  delimiter?: TableDelimiter;
+  hasHeader?: boolean;
+}
+
+export const TABLE_DELIMITERS: { value: TableDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+  { value: '|', label: 'Pipe' },
+  { value: ' ', label: 'Whitespace' }
+];
+
+// Lines inspected when guessing the delimiter and header.
+const DETECTION_LINES = 20;
+
+function getDataLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '' && !line.trimStart().startsWith('#'));
+}
+
+// Quoted fields may contain the delimiter and "" for a literal quote; whitespace-separated
+// files treat any run of spaces or tabs as one separator.
+export function splitTableLine(line: string, delimiter: TableDelimiter): string[] {
+  if (delimiter === ' ') return line.trim().split(/\s+/);
+
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current.trim() === '') {
+      quoted = true;
+      current = '';
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+// Accepts a decimal comma ("1,5") when the comma is not the delimiter.
+export function parseTableNumber(cell: string, delimiter: TableDelimiter): number | null {
+  let text = cell.trim();
+  if (text === '') return null;
+  if (delimiter !== ',' && /^[+-]?\d+,\d+(?:[eE][+-]?\d+)?$/.test(text)) {
+    text = text.replace(',', '.');
+  }
+  const value = Number(text);
+  return isFinite(value) ? value : null;
+}
+
+// Prefers the delimiter that splits the sample lines into the same number of numeric columns
+// most often, so "1,5;2,5" reads as semicolons with decimal commas. Ties go to the earlier
+// entry in TABLE_DELIMITERS.
+export function detectDelimiter(lines: string[]): TableDelimiter {
+  const sample = lines.slice(0, DETECTION_LINES);
+  let best: { delimiter: TableDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  TABLE_DELIMITERS.forEach(({ value }) => {
+    const counts = new Map<number, number>();
+    sample.forEach((line, index) => {
+      const cells = splitTableLine(line, value);
+      // The first line may be a header, so it only has to split.
+      if (cells.length < 2 || (index > 0 && !isNumericRow(cells, value))) return;
+      counts.set(cells.length, (counts.get(cells.length) ?? 0) + 1);
+    });
+    const score = Math.max(0, ...counts.values());
+    if (score > best.score) best = { delimiter: value, score };
+  });
+
+  return best.delimiter;
+}
+
+function isNumericRow(cells: string[], delimiter: TableDelimiter): boolean {
+  const filled = cells.filter((cell) => cell.trim() !== '');
+  return filled.length > 0 && filled.every((cell) => parseTableNumber(cell, delimiter) !== null);
+}
+
+// A first row with text in it followed by numeric rows is a header.
+export function detectHeader(lines: string[], delimiter: TableDelimiter): boolean {
+  if (lines.length < 2) return false;
+  const first = splitTableLine(lines[0], delimiter);
+  if (isNumericRow(first, delimiter)) return false;
+  return lines.slice(1, DETECTION_LINES).some((line) => isNumericRow(splitTableLine(line, delimiter), delimiter));
+}
+
+export function parseTable(text: string, options: TableParseOptions = {}): ParsedTable {
+  const lines = getDataLines(text);
+  const delimiter = options.delimiter ?? detectDelimiter(lines);
+  const hasHeader = options.hasHeader ?? detectHeader(lines, delimiter);
+
+  const rows = (hasHeader ? lines.slice(1) : lines).map((line) => splitTableLine(line, delimiter));
+  const headerCells = hasHeader && lines.length > 0 ? splitTableLine(lines[0], delimiter) : [];
+  // Reduced rather than spread into Math.max, which overflows the stack on large files.
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), headerCells.length);
+  const headers = Array.from({ length: columnCount }, (_, i) => headerCells[i] || `Column ${i + 1}`);
+
+  return { delimiter, hasHeader, headers, rows, columnCount };
+}
+
+// Rows where either cell is missing or not a number are skipped. Without an x column the row
+// number (starting at 0) is used.
+export function getColumnPoints(table: ParsedTable, xColumn: number | null, yColumn: number): { x: number; y: number }[] {
+  const points: { x: number; y: number }[] = [];
+  table.rows.forEach((row, index) => {
+    const x = xColumn === null ? index : parseTableNumber(row[xColumn] ?? '', table.delimiter);
+    const y = parseTableNumber(row[yColumn] ?? '', table.delimiter);
+    if (x !== null && y !== null) points.push({ x, y });
+  });
+  return points;
+}
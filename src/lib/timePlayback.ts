@@ -0,0 +1,42 @@
+export interface TimePlayback {
+  playing: boolean;
+  // Multiple of real time.
+  speed: number;
+  // Wraps time back to range[0] when it reaches range[1].
+  loop: boolean;
+  range: [number, number];
+  // Advances in whole steps of speed / frameRate instead of by the elapsed wall-clock time, so
+  // runs depend only on the frame rate. Below the frame rate several steps go at once.
+  fixedStep: boolean;
+  frameRate: number;
+}
+
+export const DEFAULT_TIME_PLAYBACK: TimePlayback = {
+  playing: true,
+  speed: 1,
+  loop: false,
+  range: [0, 10],
+  fixedStep: false,
+  frameRate: 30
+};
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+export const PLAYBACK_FRAME_RATES = [24, 30, 60];
+
+// Time covered by one frame of the fixed timestep, also used by the step buttons.
+export function getFrameDuration(playback: TimePlayback): number {
+  return playback.speed / playback.frameRate;
+}
+
+// Moves time by delta seconds, wrapping into the loop range when looping and stopping at zero
+// otherwise.
+export function advancePlaybackTime(time: number, delta: number, playback: TimePlayback): number {
+  const next = time + delta;
+  if (!playback.loop) return Math.max(0, next);
+
+  const [start, end] = playback.range;
+  const span = end - start;
+  if (!(span > 0)) return start;
+  if (next >= start && next < end) return next;
+  return start + ((((next - start) % span) + span) % span);
+}
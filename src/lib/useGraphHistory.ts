@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GraphState } from './graphState';
+
+// Changes of the same kind closer together than this (keystrokes, drag frames) become one undo
+// step, but a step never spans more than MAX_STEP_MS from its first change.
+const COALESCE_MS = 500;
+const MAX_STEP_MS = 2000;
+const MAX_HISTORY = 200;
+
+interface HistoryStacks {
+  past: GraphState[];
+  future: GraphState[];
+}
+
+function isSameGraphState(a: GraphState, b: GraphState): boolean {
+  return a.functions === b.functions
+    && a.xDomain === b.xDomain
+    && a.yDomain === b.yDomain
+    && a.gridDensity === b.gridDensity
+    && a.aspectLocked === b.aspectLocked
+    && a.parameters === b.parameters
+    && a.sliders === b.sliders;
+}
+
+// With the aspect lock on, the y range follows x and the container size, so a change to it
+// alone is a consequence of another step rather than a step of its own.
+function isDerivedChange(previous: GraphState, next: GraphState): boolean {
+  return next.aspectLocked
+    && previous.aspectLocked
+    && previous.yDomain !== next.yDomain
+    && isSameGraphState(previous, { ...next, yDomain: previous.yDomain });
+}
+
+// What an edit touched: one function, the list, the view, the parameters or another setting.
+// Only edits of the same kind coalesce.
+function getChangeKind(previous: GraphState, next: GraphState): string {
+  if (previous.functions !== next.functions) {
+    if (previous.functions.length !== next.functions.length) return 'functions';
+    const index = next.functions.findIndex((f, i) => f !== previous.functions[i]);
+    const single = next.functions.every((f, i) => i === index || f === previous.functions[i]);
+    return single && next.functions[index].id === previous.functions[index].id
+      ? `function:${next.functions[index].id}`
+      : 'functions';
+  }
+  if (previous.xDomain !== next.xDomain || previous.yDomain !== next.yDomain) return 'viewport';
+  if (previous.parameters !== next.parameters) return 'parameters';
+  return 'settings';
+}
+
+// `isFollowUp` tells apart changes the app makes in response to another one, e.g. parameters
+// added for a new variable; they join the step of the change that caused them.
+export function useGraphHistory(
+  graphState: GraphState,
+  applyGraphState: (state: GraphState) => void,
+  isFollowUp: (previous: GraphState, next: GraphState) => boolean = () => false
+) {
+  const [stacks, setStacks] = useState<HistoryStacks>({ past: [], future: [] });
+  const previousRef = useRef(graphState);
+  const isFollowUpRef = useRef(isFollowUp);
+  isFollowUpRef.current = isFollowUp;
+  const lastChangeAtRef = useRef(0);
+  const stepStartedAtRef = useRef(0);
+  const stepKindRef = useRef<string | null>(null);
+  // State written by undo/redo, which must not be recorded as a new edit.
+  const restoredRef = useRef<GraphState | null>(null);
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = graphState;
+    if (previous === graphState) return;
+
+    if (restoredRef.current && isSameGraphState(restoredRef.current, graphState)) {
+      restoredRef.current = null;
+      return;
+    }
+    if (isDerivedChange(previous, graphState) || isFollowUpRef.current(previous, graphState)) return;
+
+    const now = performance.now();
+    const kind = getChangeKind(previous, graphState);
+    const startsNewStep = kind !== stepKindRef.current
+      || now - lastChangeAtRef.current > COALESCE_MS
+      || now - stepStartedAtRef.current > MAX_STEP_MS;
+    lastChangeAtRef.current = now;
+    if (!startsNewStep) return;
+    stepStartedAtRef.current = now;
+    stepKindRef.current = kind;
+
+    setStacks((prev) => ({ past: [...prev.past, previous].slice(-MAX_HISTORY), future: [] }));
+  }, [graphState]);
+
+  const restore = useCallback((state: GraphState) => {
+    restoredRef.current = state;
+    lastChangeAtRef.current = 0;
+    stepKindRef.current = null;
+    applyGraphState(state);
+  }, [applyGraphState]);
+
+  const undo = useCallback(() => {
+    const target = stacks.past[stacks.past.length - 1];
+    if (!target) return;
+    setStacks({ past: stacks.past.slice(0, -1), future: [graphState, ...stacks.future] });
+    restore(target);
+  }, [stacks, graphState, restore]);
+
+  const redo = useCallback(() => {
+    const target = stacks.future[0];
+    if (!target) return;
+    setStacks({ past: [...stacks.past, graphState], future: stacks.future.slice(1) });
+    restore(target);
+  }, [stacks, graphState, restore]);
+
+  // For switching documents: the new graph starts with an empty history.
+  const reset = useCallback((state: GraphState) => {
+    setStacks({ past: [], future: [] });
+    restore(state);
+  }, [restore]);
+
+  return {
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
+    undo,
+    redo,
+    reset
+  };
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+import { SliderConfig, advanceSliderValue, getSliderConfig } from './parameterSliders';
+
+// Advances every playing parameter once per animation frame and reports just their values, so
+// the caller can keep them apart from the recorded parameters. Parameters that reach the end of
+// a one-shot animation are reported through onFinished.
+export function useParameterAnimation(
+  playing: string[],
+  parameters: Record<string, number>,
+  sliders: Record<string, SliderConfig>,
+  onFrame: (values: Record<string, number>) => void,
+  onFinished: (name: string) => void
+) {
+  const parametersRef = useRef(parameters);
+  const slidersRef = useRef(sliders);
+  const onFinishedRef = useRef(onFinished);
+  // Bounce direction per parameter, kept across pauses.
+  const directionsRef = useRef<Record<string, 1 | -1>>({});
+
+  useEffect(() => {
+    parametersRef.current = parameters;
+    slidersRef.current = sliders;
+    onFinishedRef.current = onFinished;
+  }, [parameters, sliders, onFinished]);
+
+  useEffect(() => {
+    if (playing.length === 0) return;
+
+    let rafId = 0;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const seconds = Math.min(0.1, (now - last) / 1000);
+      last = now;
+      const finished: string[] = [];
+
+      const values: Record<string, number> = {};
+      playing.forEach((name) => {
+        const current = parametersRef.current[name];
+        if (current === undefined) return;
+        const step = advanceSliderValue(
+          current,
+          directionsRef.current[name] ?? 1,
+          getSliderConfig(slidersRef.current, name),
+          seconds
+        );
+        values[name] = step.value;
+        directionsRef.current[name] = step.direction;
+        if (step.finished) finished.push(name);
+      });
+      // Read by the next frame even if React has not re-rendered in between.
+      parametersRef.current = { ...parametersRef.current, ...values };
+      onFrame(values);
+
+      finished.forEach((name) => onFinishedRef.current(name));
+      rafId = window.requestAnimationFrame(tick);
+    };
+
+    rafId = window.requestAnimationFrame(tick);
+    return () => window.cancelAnimationFrame(rafId);
+  }, [playing, onFrame]);
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { TimePlayback, advancePlaybackTime, getFrameDuration } from './timePlayback';
+
+// Wall-clock gaps longer than this (a background tab, a breakpoint) advance time by this much.
+const MAX_FRAME_SECONDS = 0.25;
+
+// Drives `time` while playback is active, emitting at most maxFps frames per second.
+export function useTimePlayback(
+  active: boolean,
+  maxFps: number,
+  playback: TimePlayback,
+  timeSeconds: number,
+  setTimeSeconds: (time: number) => void
+) {
+  const playbackRef = useRef(playback);
+  const timeRef = useRef(timeSeconds);
+
+  useEffect(() => {
+    playbackRef.current = playback;
+    timeRef.current = timeSeconds;
+  }, [playback, timeSeconds]);
+
+  const running = active && playback.playing;
+
+  useEffect(() => {
+    if (!running) return;
+
+    let rafId = 0;
+    // Wall-clock time up to which playback has advanced.
+    let lastEmit = performance.now();
+
+    const emit = (delta: number) => {
+      timeRef.current = advancePlaybackTime(timeRef.current, delta, playbackRef.current);
+      setTimeSeconds(timeRef.current);
+    };
+
+    const tick = (now: number) => {
+      const current = playbackRef.current;
+      const elapsedMs = now - lastEmit;
+      if (elapsedMs >= 1000 / maxFps) {
+        if (!current.fixedStep) {
+          emit(Math.min(MAX_FRAME_SECONDS, elapsedMs / 1000) * current.speed);
+          lastEmit = now;
+        } else {
+          // Whole frames of the fixed timestep that have passed, several at once when the emit
+          // rate is below the frame rate, so the run keeps to real time. The remainder carries
+          // over to the next emit rather than being rounded away.
+          const frameMs = 1000 / current.frameRate;
+          const frames = Math.floor(elapsedMs / frameMs);
+          const maxFrames = Math.ceil(MAX_FRAME_SECONDS * current.frameRate);
+          if (frames > 0) {
+            emit(Math.min(frames, maxFrames) * getFrameDuration(current));
+            lastEmit = frames > maxFrames ? now : lastEmit + frames * frameMs;
+          }
+        }
+      }
+      rafId = window.requestAnimationFrame(tick);
+    };
+
+    rafId = window.requestAnimationFrame(tick);
+    return () => window.cancelAnimationFrame(rafId);
+  }, [running, maxFps, setTimeSeconds]);
+}
@@ -0,0 +1,118 @@
+import { GraphState, toCompactGraphState, fromCompactGraphState } from './graphState';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  updatedAt: number;
+  state: GraphState;
+}
+
+export interface WorkspaceStore {
+  activeId: string;
+  workspaces: Workspace[];
+}
+
+const STORAGE_KEY = 'function-graph:workspaces';
+const STORE_VERSION = 1;
+const WORKSPACE_FILE_FORMAT = 'function-graph-workspace';
+const WORKSPACE_FILE_VERSION = 1;
+const DEFAULT_WORKSPACE_NAME = 'My graph';
+
+export function createWorkspace(name: string, state: GraphState): Workspace {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name,
+    updatedAt: Date.now(),
+    state
+  };
+}
+
+export function getActiveWorkspace(store: WorkspaceStore): Workspace {
+  return store.workspaces.find((w) => w.id === store.activeId) ?? store.workspaces[0];
+}
+
+// Falls back to a single workspace holding the given state when nothing usable is stored.
+export function loadWorkspaceStore(fallback: GraphState): WorkspaceStore {
+  const fresh = (): WorkspaceStore => {
+    const workspace = createWorkspace(DEFAULT_WORKSPACE_NAME, fallback);
+    return { activeId: workspace.id, workspaces: [workspace] };
+  };
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return fresh();
+
+    const parsed = JSON.parse(raw);
+    if (parsed?.v !== STORE_VERSION || !Array.isArray(parsed.workspaces)) return fresh();
+
+    const workspaces: Workspace[] = [];
+    parsed.workspaces.forEach((entry: any) => {
+      const state = fromCompactGraphState(entry?.state);
+      if (!state || typeof entry.id !== 'string' || typeof entry.name !== 'string') return;
+      workspaces.push({
+        id: entry.id,
+        name: entry.name,
+        updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : Date.now(),
+        state
+      });
+    });
+    if (workspaces.length === 0) return fresh();
+
+    const activeId = workspaces.some((w) => w.id === parsed.activeId) ? parsed.activeId : workspaces[0].id;
+    return { activeId, workspaces };
+  } catch {
+    return fresh();
+  }
+}
+
+export function saveWorkspaceStore(store: WorkspaceStore): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      v: STORE_VERSION,
+      activeId: store.activeId,
+      workspaces: store.workspaces.map((w) => ({
+        id: w.id,
+        name: w.name,
+        updatedAt: w.updatedAt,
+        state: toCompactGraphState(w.state)
+      }))
+    }));
+  } catch {
+    // Storage can be full or disabled (private mode); the session keeps working unsaved.
+  }
+}
+
+export function updateWorkspace(store: WorkspaceStore, id: string, updates: Partial<Omit<Workspace, 'id'>>): WorkspaceStore {
+  return {
+    ...store,
+    workspaces: store.workspaces.map((w) => (w.id === id ? { ...w, ...updates, updatedAt: Date.now() } : w))
+  };
+}
+
+// Pretty-printed so exported files diff cleanly when checked into a repository.
+export function serializeWorkspaceFile(workspace: Workspace): string {
+  return JSON.stringify({
+    format: WORKSPACE_FILE_FORMAT,
+    version: WORKSPACE_FILE_VERSION,
+    name: workspace.name,
+    graph: toCompactGraphState(workspace.state)
+  }, null, 2);
+}
+
+export function parseWorkspaceFile(text: string): { name: string; state: GraphState } | null {
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed?.format !== WORKSPACE_FILE_FORMAT || parsed.version !== WORKSPACE_FILE_VERSION) return null;
+
+    const state = fromCompactGraphState(parsed.graph);
+    if (!state) return null;
+    return { name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name : 'Imported graph', state };
+  } catch {
+    return null;
+  }
+}
+
+export function getWorkspaceFileName(workspace: Workspace): string {
+  const slug = workspace.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'graph'}.graph.json`;
+}